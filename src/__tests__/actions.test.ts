@@ -0,0 +1,151 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import {
+  applyActions,
+  completedMessages,
+  describeActions,
+  hasActions,
+  noActions,
+} from "../actions";
+import type { AttachmentInfo } from "../gmail";
+
+function attachment(messageId: string, filename: string, account?: string): AttachmentInfo {
+  return {
+    messageId,
+    attachmentId: `${messageId}-${filename}`,
+    filename,
+    mimeType: "application/pdf",
+    size: 100,
+    ...(account ? { account } : {}),
+  };
+}
+
+describe("hasActions and describeActions", () => {
+  it("has no actions by default", () => {
+    expect(hasActions(noActions())).toBe(false);
+    expect(describeActions(noActions())).toBe("");
+  });
+
+  it("describes every action", () => {
+    const actions = { addLabel: "Exported", archive: true, markRead: true, trash: true };
+
+    expect(hasActions(actions)).toBe(true);
+    expect(describeActions(actions)).toBe('label "Exported", archive, mark read, move to trash');
+  });
+});
+
+describe("completedMessages", () => {
+  it("keeps messages whose attachments all downloaded, once each", () => {
+    const downloaded = [
+      attachment("m1", "a.pdf"),
+      attachment("m1", "b.pdf"),
+      attachment("m2", "c.pdf"),
+      attachment("m3", "d.pdf"),
+    ];
+    const missing = [attachment("m2", "e.pdf")];
+
+    expect(completedMessages(downloaded, missing)).toEqual(
+      new Map([["default", ["m1", "m3"]]])
+    );
+  });
+
+  it("groups messages by account", () => {
+    const downloaded = [
+      attachment("m1", "a.pdf", "work"),
+      attachment("m1", "a.pdf", "home"),
+      attachment("m2", "b.pdf", "home"),
+    ];
+    const missing = [attachment("m1", "c.pdf", "work")];
+
+    expect(completedMessages(downloaded, missing)).toEqual(new Map([["home", ["m1", "m2"]]]));
+  });
+
+  it("leaves messages with filtered-out attachments alone", () => {
+    const downloaded = [attachment("m1", "a.pdf"), attachment("m2", "b.pdf")];
+    const missing: AttachmentInfo[] = [];
+    const filteredOut = [attachment("m1", "logo.png")];
+
+    expect(completedMessages(downloaded, [...missing, ...filteredOut])).toEqual(
+      new Map([["default", ["m2"]]])
+    );
+  });
+});
+
+describe("applyActions", () => {
+  let originalGmail: any;
+  let mockLabelsList: ReturnType<typeof mock>;
+  let mockLabelsCreate: ReturnType<typeof mock>;
+  let mockBatchModify: ReturnType<typeof mock>;
+  let mockTrash: ReturnType<typeof mock>;
+  let calls: string[];
+
+  beforeEach(async () => {
+    calls = [];
+    mockLabelsList = mock(() =>
+      Promise.resolve({ data: { labels: [{ id: "Label_7", name: "Exported" }] } })
+    );
+    mockLabelsCreate = mock(() => Promise.resolve({ data: { id: "Label_8" } }));
+    mockBatchModify = mock((_params: any) => {
+      calls.push("modify");
+      return Promise.resolve({ data: {} });
+    });
+    mockTrash = mock((params: any) => {
+      calls.push(`trash ${params.id}`);
+      return Promise.resolve({ data: {} });
+    });
+
+    const { google } = await import("googleapis");
+    originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: {
+        labels: { list: mockLabelsList, create: mockLabelsCreate },
+        messages: { batchModify: mockBatchModify, trash: mockTrash },
+      },
+    })) as unknown as typeof google.gmail;
+  });
+
+  afterEach(async () => {
+    const { google } = await import("googleapis");
+    google.gmail = originalGmail;
+  });
+
+  it("labels, archives and marks read in one change", async () => {
+    await applyActions(
+      {} as any,
+      ["m1", "m2"],
+      { addLabel: "exported", archive: true, markRead: true, trash: false },
+      "alice@example.com"
+    );
+
+    expect(mockLabelsCreate).not.toHaveBeenCalled();
+    expect(mockBatchModify).toHaveBeenCalledTimes(1);
+    expect(mockBatchModify.mock.calls[0][0]).toEqual({
+      userId: "alice@example.com",
+      requestBody: {
+        ids: ["m1", "m2"],
+        addLabelIds: ["Label_7"],
+        removeLabelIds: ["INBOX", "UNREAD"],
+      },
+    });
+    expect(mockTrash).not.toHaveBeenCalled();
+  });
+
+  it("creates a missing label", async () => {
+    await applyActions({} as any, ["m1"], { ...noActions(), addLabel: "Invoices/2024" });
+
+    expect((mockLabelsCreate.mock.calls[0] as any[])[0].requestBody.name).toBe("Invoices/2024");
+    expect(mockBatchModify.mock.calls[0][0].requestBody.addLabelIds).toEqual(["Label_8"]);
+  });
+
+  it("trashes messages after changing their labels", async () => {
+    await applyActions({} as any, ["m1", "m2"], { ...noActions(), markRead: true, trash: true });
+
+    expect(calls).toEqual(["modify", "trash m1", "trash m2"]);
+  });
+
+  it("does nothing without messages", async () => {
+    await applyActions({} as any, [], { ...noActions(), addLabel: "Exported", trash: true });
+
+    expect(mockLabelsList).not.toHaveBeenCalled();
+    expect(mockTrash).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, mock } from "bun:test";
+import { encodeBatch, decodeBatch, sendBatch } from "../batch";
+
+function batchResponse(boundary: string, items: { id: number; status: string; body: string }[]): string {
+  return (
+    items
+      .map(
+        ({ id, status, body }) =>
+          `--${boundary}\r\n` +
+          "Content-Type: application/http\r\n" +
+          `Content-ID: <response-item-${id}>\r\n\r\n` +
+          `HTTP/1.1 ${status}\r\n` +
+          "Content-Type: application/json; charset=UTF-8\r\n\r\n" +
+          `${body}\r\n`
+      )
+      .join("") + `--${boundary}--\r\n`
+  );
+}
+
+describe("encodeBatch", () => {
+  it("writes one application/http part per request", () => {
+    const body = encodeBatch(
+      [{ path: "/gmail/v1/users/me/messages/a" }, { path: "/gmail/v1/users/me/messages/b" }],
+      "xyz"
+    );
+
+    expect(body).toBe(
+      "--xyz\r\nContent-Type: application/http\r\nContent-ID: <item-0>\r\n\r\n" +
+        "GET /gmail/v1/users/me/messages/a\r\n\r\n" +
+        "--xyz\r\nContent-Type: application/http\r\nContent-ID: <item-1>\r\n\r\n" +
+        "GET /gmail/v1/users/me/messages/b\r\n\r\n" +
+        "--xyz--\r\n"
+    );
+  });
+});
+
+describe("decodeBatch", () => {
+  it("matches responses to requests by Content-ID", () => {
+    const body = batchResponse("resp", [
+      { id: 1, status: "404 Not Found", body: '{"error":{"code":404,"message":"Not Found"}}' },
+      { id: 0, status: "200 OK", body: '{"id":"a"}' },
+    ]);
+
+    const result = decodeBatch(body, 'multipart/mixed; boundary="resp"', 2);
+
+    expect(result).toEqual([
+      { status: 200, body: { id: "a" } },
+      { status: 404, body: { error: { code: 404, message: "Not Found" } } },
+    ]);
+  });
+
+  it("reports missing responses with status 0", () => {
+    const body = batchResponse("resp", [{ id: 0, status: "200 OK", body: "{}" }]);
+
+    const result = decodeBatch(body, "multipart/mixed; boundary=resp", 2);
+
+    expect(result[1]).toEqual({ status: 0, body: undefined });
+  });
+
+  it("keeps non-JSON bodies as text", () => {
+    const body = batchResponse("resp", [{ id: 0, status: "503 Service Unavailable", body: "try later" }]);
+
+    expect(decodeBatch(body, "multipart/mixed; boundary=resp", 1)[0]).toEqual({
+      status: 503,
+      body: "try later",
+    });
+  });
+
+  it("throws when the content type has no boundary", () => {
+    expect(() => decodeBatch("", "application/json", 1)).toThrow(
+      "Batch response has no multipart boundary"
+    );
+  });
+});
+
+describe("sendBatch", () => {
+  it("posts the encoded batch and decodes the response", async () => {
+    const request = mock((opts: any) =>
+      Promise.resolve({
+        headers: { "content-type": "multipart/mixed; boundary=resp" },
+        data: batchResponse("resp", [{ id: 0, status: "200 OK", body: '{"id":"a"}' }]),
+      })
+    );
+
+    const result = await sendBatch({ request } as any, [{ path: "/gmail/v1/users/me/messages/a" }]);
+
+    expect(result).toEqual([{ status: 200, body: { id: "a" } }]);
+    const opts = request.mock.calls[0][0];
+    expect(opts.url).toBe("https://gmail.googleapis.com/batch/gmail/v1");
+    expect(opts.method).toBe("POST");
+    const boundary = opts.headers["Content-Type"].match(/boundary=(.+)$/)[1];
+    expect(opts.data).toContain(`--${boundary}\r\n`);
+    expect(opts.data).toContain("GET /gmail/v1/users/me/messages/a");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  checkpointDir,
+  loadCheckpoint,
+  saveCheckpoint,
+  type Checkpoint,
+} from "../checkpoint";
+import { noActions } from "../actions";
+import { emptyFilters, saveFilters } from "../filters";
+
+function checkpoint(): Checkpoint {
+  return {
+    version: 1,
+    createdAt: "2024-03-15T09:30:00.000Z",
+    options: {
+      query: "subject:invoice has:attachment",
+      output: "invoices.zip",
+      layout: "{filename}",
+      duplicates: "dedupe",
+      manifest: "json",
+      incremental: false,
+      statePath: ".gmail-attachments-state.json",
+      attachedMessages: "both",
+      filters: saveFilters(emptyFilters()),
+      accounts: [],
+      impersonate: [],
+      actions: noActions(),
+    },
+    zipPath: "invoices.zip",
+    messageIds: ["msg1", "msg2"],
+    attachments: [
+      {
+        attachmentId: "att1",
+        filename: "invoice.pdf",
+        mimeType: "application/pdf",
+        size: 1000,
+        messageId: "msg1",
+      },
+    ],
+    skipped: [],
+    downloads: { "0": { spoolFile: "1.part", sha256: "abc", size: 1000 } },
+  };
+}
+
+describe("checkpointDir", () => {
+  it("places the checkpoint next to a ZIP output", () => {
+    expect(checkpointDir("exports/invoices.zip")).toBe(
+      "exports/.gmail-attachments-checkpoint-invoices.zip"
+    );
+  });
+
+  it("places the checkpoint inside an output directory", () => {
+    expect(checkpointDir("attachments.zip", "exports")).toBe(
+      "exports/.gmail-attachments-checkpoint"
+    );
+  });
+});
+
+describe("loadCheckpoint and saveCheckpoint", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-checkpoint-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined when there is no checkpoint", async () => {
+    expect(await loadCheckpoint(dir)).toBeUndefined();
+    expect(await loadCheckpoint(join(dir, "missing"))).toBeUndefined();
+  });
+
+  it("round-trips a checkpoint", async () => {
+    await saveCheckpoint(checkpoint(), dir);
+
+    expect(await loadCheckpoint(dir)).toEqual(checkpoint());
+  });
+
+  it("replaces the previous checkpoint without leaving partial files", async () => {
+    await saveCheckpoint(checkpoint(), dir);
+    const updated = { ...checkpoint(), downloads: {} };
+
+    await saveCheckpoint(updated, dir);
+
+    expect(await loadCheckpoint(dir)).toEqual(updated);
+    expect(await readdir(dir)).toEqual(["checkpoint.json"]);
+  });
+
+  it("throws a descriptive error for unreadable checkpoints", async () => {
+    await writeFile(join(dir, "checkpoint.json"), "{ not json");
+
+    await expect(loadCheckpoint(dir)).rejects.toThrow(
+      `Failed to parse ${join(dir, "checkpoint.json")}. Delete ${dir} to start over.`
+    );
+  });
+
+  it("rejects unknown checkpoint versions", async () => {
+    await writeFile(join(dir, "checkpoint.json"), JSON.stringify({ version: 2 }));
+
+    await expect(loadCheckpoint(dir)).rejects.toThrow("Unsupported checkpoint format");
+  });
+
+  it("reports a descriptive error when the checkpoint cannot be written", async () => {
+    const blocked = join(dir, "blocked");
+    await writeFile(blocked, "not a folder");
+
+    await expect(saveCheckpoint(checkpoint(), blocked)).rejects.toThrow(
+      "Failed to write checkpoint"
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, mock, beforeEach, afterEach, spyOn } from "bun:test";
-import { parseArgs, formatBytes } from "../index";
+import { parseArgs, formatBytes, resolveLayout } from "../index";
 
 describe("parseArgs", () => {
   let mockExit: ReturnType<typeof spyOn>;
@@ -94,12 +94,551 @@ describe("parseArgs", () => {
     expect(mockExit).toHaveBeenCalledWith(1);
   });
 
+  it("takes a query that starts with a negated term", () => {
+    expect(parseArgs(["-in:chats from:x", "-o", "out.zip"]).query).toBe("-in:chats from:x");
+    expect(parseArgs(["-subject:draft"]).query).toBe("-subject:draft");
+  });
+
+  it("takes everything after -- as the query", () => {
+    const result = parseArgs(["-o", "out.zip", "--", "-invoice", "-o"]);
+
+    expect(result.query).toBe("-invoice -o");
+    expect(result.output).toBe("out.zip");
+  });
+
+  it("sets output directory with --output-dir", () => {
+    const result = parseArgs(["query", "--output-dir", "invoices"]);
+
+    expect(result.outputDir).toBe("invoices");
+    expect(result.groupBy).toBeUndefined();
+  });
+
+  it("sets output directory with -d", () => {
+    const result = parseArgs(["query", "-d", "invoices"]);
+
+    expect(result.outputDir).toBe("invoices");
+  });
+
+  it("exits with error when --output-dir has no value", () => {
+    expect(() => parseArgs(["query", "--output-dir"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("sets grouping with --group-by", () => {
+    expect(parseArgs(["query", "--group-by", "sender"]).groupBy).toBe("sender");
+    expect(parseArgs(["query", "-g", "message"]).groupBy).toBe("message");
+  });
+
+  it("exits with error for invalid --group-by value", () => {
+    expect(() => parseArgs(["query", "--group-by", "folder"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("sets layout with --layout", () => {
+    const result = parseArgs(["query", "--layout", "{from.domain}/{filename}"]);
+
+    expect(result.layout).toBe("{from.domain}/{filename}");
+  });
+
+  it("exits with error for invalid layout", () => {
+    expect(() => parseArgs(["query", "-l", "{nope}/{filename}"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when --layout and --group-by are combined", () => {
+    expect(() =>
+      parseArgs(["query", "-l", "{filename}", "-g", "sender"])
+    ).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("disables incremental mode by default", () => {
+    const result = parseArgs(["query"]);
+
+    expect(result.incremental).toBe(false);
+    expect(result.statePath).toBe(".gmail-attachments-state.json");
+  });
+
+  it("sets incremental mode and state file", () => {
+    const result = parseArgs(["query", "--incremental", "--state", "weekly.json"]);
+
+    expect(result.incremental).toBe(true);
+    expect(result.statePath).toBe("weekly.json");
+  });
+
+  it("exits with error when --state has no value", () => {
+    expect(() => parseArgs(["query", "--state"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("uses a default concurrency of 4", () => {
+    expect(parseArgs(["query"]).concurrency).toBe(4);
+  });
+
+  it("sets concurrency with -c and --concurrency", () => {
+    expect(parseArgs(["query", "-c", "8"]).concurrency).toBe(8);
+    expect(parseArgs(["query", "--concurrency", "1"]).concurrency).toBe(1);
+  });
+
+  it("exits with error for invalid concurrency", () => {
+    for (const value of ["0", "2.5", "many", "51"]) {
+      expect(() => parseArgs(["query", "-c", value])).toThrow("process.exit called");
+    }
+    expect(() => parseArgs(["query", "-c"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("limits to 100 newest messages by default", () => {
+    const result = parseArgs(["query"]);
+
+    expect(result.limit).toBe(100);
+    expect(result.order).toBe("newest");
+  });
+
+  it("sets limit with -n and --limit", () => {
+    expect(parseArgs(["query", "-n", "10"]).limit).toBe(10);
+    expect(parseArgs(["query", "--limit", "3000"]).limit).toBe(3000);
+  });
+
+  it("removes the limit with --all", () => {
+    expect(parseArgs(["query", "--all"]).limit).toBeUndefined();
+  });
+
+  it("sets ordering with --oldest and --newest", () => {
+    expect(parseArgs(["query", "--oldest"]).order).toBe("oldest");
+    expect(parseArgs(["query", "--oldest", "--newest"]).order).toBe("newest");
+  });
+
+  it("exits with error for invalid limit", () => {
+    for (const value of ["0", "-1", "1.5", "ten"]) {
+      expect(() => parseArgs(["query", "--limit", value])).toThrow("process.exit called");
+    }
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when --limit and --all are combined", () => {
+    expect(() => parseArgs(["query", "--limit", "5", "--all"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("deduplicates identical content by default", () => {
+    expect(parseArgs(["query"]).duplicates).toBe("dedupe");
+  });
+
+  it("sets duplicate handling with --duplicates", () => {
+    expect(parseArgs(["query", "--duplicates", "keep"]).duplicates).toBe("keep");
+    expect(parseArgs(["query", "--duplicates", "link"]).duplicates).toBe("link");
+  });
+
+  it("exits with error for invalid --duplicates value", () => {
+    expect(() => parseArgs(["query", "--duplicates", "skip"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("has no attachment filters by default", () => {
+    const { filters } = parseArgs(["query"]);
+
+    expect(filters.mimeTypes).toEqual([]);
+    expect(filters.extensions).toEqual([]);
+    expect(filters.minSize).toBeUndefined();
+    expect(filters.include).toEqual([]);
+  });
+
+  it("collects repeated and comma separated filters", () => {
+    const { filters } = parseArgs([
+      "query",
+      "--mime", "application/pdf,image/*",
+      "--ext", "pdf",
+      "--ext", ".DOCX",
+      "--exclude-ext", "ics,vcf",
+    ]);
+
+    expect(filters.mimeTypes).toEqual(["application/pdf", "image/*"]);
+    expect(filters.extensions).toEqual(["pdf", "docx"]);
+    expect(filters.excludeExtensions).toEqual(["ics", "vcf"]);
+  });
+
+  it("parses size filters", () => {
+    const { filters } = parseArgs(["query", "--min-size", "20K", "--max-size", "5M"]);
+
+    expect(filters.minSize).toBe(20 * 1024);
+    expect(filters.maxSize).toBe(5 * 1024 * 1024);
+  });
+
+  it("parses include globs and exclude regular expressions", () => {
+    const { filters } = parseArgs([
+      "query",
+      "--include", "invoice-*.pdf",
+      "--exclude", "/draft/i",
+    ]);
+
+    expect(filters.include[0].test("invoice-42.pdf")).toBe(true);
+    expect(filters.exclude[0].test("DRAFT-invoice.pdf")).toBe(true);
+  });
+
+  it("exits with error for invalid filter values", () => {
+    expect(() => parseArgs(["query", "--min-size", "lots"])).toThrow("process.exit called");
+    expect(() => parseArgs(["query", "--include", "/(/"])).toThrow("process.exit called");
+    expect(() => parseArgs(["query", "--ext"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when --min-size exceeds --max-size", () => {
+    expect(() =>
+      parseArgs(["query", "--min-size", "2M", "--max-size", "1M"])
+    ).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("downloads by default", () => {
+    const result = parseArgs(["query"]);
+
+    expect(result.dryRun).toBe(false);
+    expect(result.format).toBe("table");
+  });
+
+  it("enables listing with --dry-run or --list", () => {
+    expect(parseArgs(["query", "--dry-run"]).dryRun).toBe(true);
+    expect(parseArgs(["query", "--list"]).dryRun).toBe(true);
+  });
+
+  it("sets the inventory format with --format", () => {
+    expect(parseArgs(["query", "--list", "--format", "csv"]).format).toBe("csv");
+    expect(parseArgs(["query", "--format", "json", "--dry-run"]).format).toBe("json");
+  });
+
+  it("exits with error for invalid --format value", () => {
+    expect(() => parseArgs(["query", "--list", "--format", "xml"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when --format is used without --dry-run", () => {
+    expect(() => parseArgs(["query", "--format", "json"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("writes a JSON manifest by default", () => {
+    expect(parseArgs(["query"]).manifest).toBe("json");
+  });
+
+  it("sets manifest formats with --manifest", () => {
+    expect(parseArgs(["query", "--manifest", "both"]).manifest).toBe("both");
+    expect(parseArgs(["query", "--manifest", "none"]).manifest).toBe("none");
+  });
+
+  it("exits with error for invalid --manifest value", () => {
+    expect(() => parseArgs(["query", "--manifest", "xml"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("keeps and extracts attached messages by default", () => {
+    expect(parseArgs(["query"]).attachedMessages).toBe("both");
+  });
+
+  it("sets attached message handling with --attached-messages", () => {
+    expect(parseArgs(["query", "--attached-messages", "extract"]).attachedMessages).toBe(
+      "extract"
+    );
+    expect(parseArgs(["query", "--attached-messages", "keep"]).attachedMessages).toBe("keep");
+  });
+
+  it("exits with error for invalid --attached-messages value", () => {
+    expect(() => parseArgs(["query", "--attached-messages", "flatten"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exports only attachments by default", () => {
+    expect(parseArgs(["query"]).includeMessage).toBeUndefined();
+  });
+
+  it("sets the message export format with --include-message", () => {
+    expect(parseArgs(["query", "--include-message", "eml"]).includeMessage).toBe("eml");
+    expect(parseArgs(["query", "--include-message", "html"]).includeMessage).toBe("html");
+  });
+
+  it("exits with error for invalid --include-message value", () => {
+    expect(() => parseArgs(["query", "--include-message", "pdf"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("uses the default account unless --account is given", () => {
+    expect(parseArgs(["query"]).accounts).toEqual([]);
+  });
+
+  it("collects accounts from repeated and comma separated --account", () => {
+    expect(
+      parseArgs(["query", "--account", "personal,finance", "--account", "work", "--account", "finance"])
+        .accounts
+    ).toEqual(["personal", "finance", "work"]);
+  });
+
+  it("exits with error for invalid account names", () => {
+    expect(() => parseArgs(["query", "--account", "../token"])).toThrow(
+      "process.exit called"
+    );
+    expect(() => parseArgs(["query", "--account"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("collects mailboxes to impersonate", () => {
+    expect(parseArgs(["query"]).impersonate).toEqual([]);
+    expect(
+      parseArgs(["query", "--impersonate", "alice@example.com,bob@example.com"]).impersonate
+    ).toEqual(["alice@example.com", "bob@example.com"]);
+  });
+
+  it("exits with error for invalid --impersonate values", () => {
+    expect(() => parseArgs(["query", "--impersonate", "alice"])).toThrow("process.exit called");
+    expect(() => parseArgs(["query", "--impersonate"])).toThrow("process.exit called");
+    expect(() =>
+      parseArgs(["query", "--impersonate", "alice@example.com", "--account", "work"])
+    ).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("signs in through the browser redirect unless --manual-auth is given", () => {
+    expect(parseArgs(["query"]).manualAuth).toBe(false);
+    expect(parseArgs(["query", "--manual-auth"]).manualAuth).toBe(true);
+  });
+
+  it("parses thread mode", () => {
+    expect(parseArgs(["query"]).threads).toBe(false);
+    const result = parseArgs(["query", "--threads", "--latest-only"]);
+
+    expect(result.threads).toBe(true);
+    expect(result.latestOnly).toBe(true);
+  });
+
+  it("exits with error when --latest-only is given without --threads", () => {
+    expect(() => parseArgs(["query", "--latest-only"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("has no mailbox actions by default", () => {
+    const result = parseArgs(["query"]);
+
+    expect(result.actions).toEqual({ archive: false, markRead: false, trash: false });
+    expect(result.yes).toBe(false);
+  });
+
+  it("parses mailbox actions", () => {
+    const result = parseArgs([
+      "query",
+      "--add-label",
+      "Exported",
+      "--archive",
+      "--mark-read",
+      "--trash",
+      "-y",
+    ]);
+
+    expect(result.actions).toEqual({
+      addLabel: "Exported",
+      archive: true,
+      markRead: true,
+      trash: true,
+    });
+    expect(result.yes).toBe(true);
+  });
+
+  it("exits with error when --add-label has no name", () => {
+    expect(() => parseArgs(["query", "--add-label", " "])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("parses the watch interval with --interval", () => {
+    expect(parseArgs(["query"]).interval).toBeUndefined();
+    expect(parseArgs(["query", "--interval", "5m"]).interval).toBe(300_000);
+  });
+
+  it("exits with error for an invalid --interval", () => {
+    expect(() => parseArgs(["query", "--interval", "5s"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("collects search options", () => {
+    expect(parseArgs(["query"]).search).toEqual({});
+    const result = parseArgs([
+      "--from",
+      "billing@vendor.com",
+      "--label",
+      "Client Work",
+      "--since",
+      "30d",
+      "--before",
+      "2024-03-31",
+    ]);
+
+    expect(result.query).toBe("");
+    expect(result.search).toEqual({
+      from: "billing@vendor.com",
+      label: "Client Work",
+      since: "30d",
+      before: "2024-03-31",
+    });
+  });
+
+  it("exits with error for an invalid --since", () => {
+    expect(() => parseArgs(["query", "--since", "last week"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when a search option has no value", () => {
+    expect(() => parseArgs(["query", "--from"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("parses the volume size with --split-size", () => {
+    expect(parseArgs(["query"]).splitSize).toBeUndefined();
+    expect(parseArgs(["query", "--split-size", "500M"]).splitSize).toBe(500 * 1024 * 1024);
+  });
+
+  it("exits with error for an invalid or too small --split-size", () => {
+    expect(() => parseArgs(["query", "--split-size", "big"])).toThrow("process.exit called");
+    expect(() => parseArgs(["query", "--split-size", "100K"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("enables resuming with --resume", () => {
+    expect(parseArgs(["query"]).resume).toBe(false);
+    expect(parseArgs(["--resume", "-o", "big.zip"]).resume).toBe(true);
+  });
+
+  it("exits with error when --resume and --dry-run are combined", () => {
+    expect(() => parseArgs(["query", "--resume", "--dry-run"])).toThrow(
+      "process.exit called"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("includes inline parts by default", () => {
+    expect(parseArgs(["query"]).filters.inline).toBe("include");
+  });
+
+  it("sets inline handling with --inline", () => {
+    expect(parseArgs(["query", "--inline", "exclude"]).filters.inline).toBe("exclude");
+    expect(parseArgs(["query", "--inline", "only"]).filters.inline).toBe("only");
+  });
+
+  it("exits with error for invalid --inline value", () => {
+    expect(() => parseArgs(["query", "--inline", "none"])).toThrow("process.exit called");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
   it("handles complex query strings", () => {
     const complexQuery = "from:sender@test.com has:attachment larger:1M after:2024/01/01";
     const result = parseArgs([complexQuery]);
 
     expect(result.query).toBe(complexQuery);
   });
+
+  describe("with defaults", () => {
+    it("starts from the defaults and lets options replace them", () => {
+      const defaults = parseArgs(["subject:invoice", "-o", "invoices.zip", "-c", "2"]);
+
+      const result = parseArgs(["-c", "8"], defaults);
+
+      expect(result.query).toBe("subject:invoice");
+      expect(result.output).toBe("invoices.zip");
+      expect(result.concurrency).toBe(8);
+      expect(defaults.concurrency).toBe(2);
+    });
+
+    it("replaces lists instead of adding to them", () => {
+      const defaults = parseArgs(["q", "--ext", "pdf,docx", "--exclude", "*.ics"]);
+
+      const result = parseArgs(["--ext", "xlsx", "--ext", "csv"], defaults);
+
+      expect(result.filters.extensions).toEqual(["xlsx", "csv"]);
+      expect(result.filters.exclude).toEqual(defaults.filters.exclude);
+      expect(defaults.filters.extensions).toEqual(["pdf", "docx"]);
+    });
+
+    it("drops defaults that conflict with given options", () => {
+      const defaults = parseArgs([
+        "q",
+        "-d",
+        "out",
+        "--layout",
+        "{filename}",
+        "--limit",
+        "10",
+        "--account",
+        "work",
+      ]);
+
+      const result = parseArgs(
+        ["-o", "a.zip", "-g", "sender", "--all", "--impersonate", "alice@example.com"],
+        defaults
+      );
+
+      expect(result.outputDir).toBeUndefined();
+      expect(result.layout).toBeUndefined();
+      expect(result.groupBy).toBe("sender");
+      expect(result.limit).toBeUndefined();
+      expect(result.accounts).toEqual([]);
+      expect(result.impersonate).toEqual(["alice@example.com"]);
+    });
+
+    it("records only the options given, not those of the defaults", () => {
+      const defaults = parseArgs(["q", "--limit", "10"]);
+
+      expect(defaults.given).toEqual(["limit"]);
+      expect(parseArgs(["-o", "a.zip"], defaults).given).toEqual(["output"]);
+      expect(
+        parseArgs(["q", "--incremental", "-c", "2", "--manifest", "csv"], defaults).given
+      ).toEqual(["incremental", "concurrency", "manifest"]);
+    });
+  });
+});
+
+describe("resolveLayout", () => {
+  it("keeps ZIP entries flat by default", () => {
+    expect(resolveLayout(parseArgs(["query"]))).toBe("{filename}");
+  });
+
+  it("uses one folder per message for directory output", () => {
+    expect(resolveLayout(parseArgs(["query", "-d", "out"]))).toBe(
+      "{messageId}/{filename}"
+    );
+  });
+
+  it("maps --group-by to its layout", () => {
+    expect(resolveLayout(parseArgs(["query", "-g", "sender"]))).toBe(
+      "{from.address}/{filename}"
+    );
+  });
+
+  it("uses one folder per thread in thread mode", () => {
+    expect(resolveLayout(parseArgs(["query", "--threads"]))).toBe("{threadId}/{filename}");
+    expect(resolveLayout(parseArgs(["query", "--threads", "-g", "sender"]))).toBe(
+      "{from.address}/{filename}"
+    );
+  });
+
+  it("prefers an explicit layout", () => {
+    expect(resolveLayout(parseArgs(["query", "-d", "out", "-l", "{subject}/{filename}"]))).toBe(
+      "{subject}/{filename}"
+    );
+  });
 });
 
 describe("formatBytes", () => {
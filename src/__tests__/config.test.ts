@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { configPaths, loadConfig, optionsToArgs, parseConfig } from "../config";
+
+describe("configPaths", () => {
+  it("looks in the project, then in XDG_CONFIG_HOME", () => {
+    expect(configPaths("/work/project", { XDG_CONFIG_HOME: "/home/me/.xdg" })).toEqual([
+      join("/work/project", "gmail-attachments.json"),
+      join("/home/me/.xdg", "gmail-attachments", "config.json"),
+    ]);
+  });
+
+  it("defaults to ~/.config", () => {
+    expect(configPaths("/work/project", {})[1]).toBe(
+      join(homedir(), ".config", "gmail-attachments", "config.json")
+    );
+  });
+});
+
+describe("optionsToArgs", () => {
+  it("turns options into command-line arguments", () => {
+    expect(
+      optionsToArgs(
+        {
+          output: "invoices.zip",
+          limit: 200,
+          incremental: true,
+          "manual-auth": false,
+          account: ["personal", "finance"],
+          order: "oldest",
+          filters: { ext: "pdf", "min-size": "20K", include: ["invoice-*", "/^INV/i"] },
+        },
+        "test"
+      )
+    ).toEqual([
+      "--output",
+      "invoices.zip",
+      "--limit",
+      "200",
+      "--incremental",
+      "--account",
+      "personal",
+      "--account",
+      "finance",
+      "--oldest",
+      "--ext",
+      "pdf",
+      "--min-size",
+      "20K",
+      "--include",
+      "invoice-*",
+      "--include",
+      "/^INV/i",
+    ]);
+  });
+
+  it("puts the query first", () => {
+    expect(optionsToArgs({ output: "a.zip", query: "subject:invoice" }, "test", true)).toEqual([
+      "subject:invoice",
+      "--output",
+      "a.zip",
+    ]);
+  });
+
+  it("rejects unknown options and wrong types", () => {
+    expect(() => optionsToArgs({ query: "q" }, "defaults")).toThrow(
+      'defaults: Unknown option "query"'
+    );
+    expect(() => optionsToArgs({ outptu: "a.zip" }, "test")).toThrow('Unknown option "outptu"');
+    expect(() => optionsToArgs({ "dry-run": true }, "test")).toThrow('Unknown option "dry-run"');
+    expect(() => optionsToArgs({ filters: { size: 1 } }, "test")).toThrow('Unknown filter "size"');
+    expect(() => optionsToArgs({ incremental: "yes" }, "test")).toThrow("must be true or false");
+    expect(() => optionsToArgs({ output: { path: "a" } }, "test")).toThrow("must be a string");
+    expect(() => optionsToArgs({ order: "random" }, "test")).toThrow("newest, oldest");
+  });
+});
+
+describe("parseConfig", () => {
+  const path = join("/home/me/.config", "gmail-attachments", "config.json");
+
+  it("reads locations, defaults and jobs", () => {
+    const config = parseConfig(
+      JSON.stringify({
+        credentials: "credentials.json",
+        tokens: "/secure/tokens",
+        defaults: { concurrency: 4 },
+        jobs: {
+          invoices: { query: "subject:invoice", output: "invoices.zip", filters: { ext: "pdf" } },
+          contracts: { query: "label:contracts", "output-dir": "contracts" },
+        },
+      }),
+      path
+    );
+
+    expect(config.path).toBe(path);
+    expect(config.credentials).toBe(join("/home/me/.config", "gmail-attachments", "credentials.json"));
+    expect(config.token).toBeUndefined();
+    expect(config.tokensDir).toBe("/secure/tokens");
+    expect(config.defaults).toEqual(["--concurrency", "4"]);
+    expect([...config.jobs.keys()]).toEqual(["invoices", "contracts"]);
+    expect(config.jobs.get("invoices")).toEqual([
+      "subject:invoice",
+      "--output",
+      "invoices.zip",
+      "--ext",
+      "pdf",
+    ]);
+  });
+
+  it("accepts search options instead of a query", () => {
+    const config = parseConfig(
+      JSON.stringify({ jobs: { vendor: { from: "billing@vendor.com", since: "30d" } } }),
+      path
+    );
+
+    expect(config.jobs.get("vendor")).toEqual(["--from", "billing@vendor.com", "--since", "30d"]);
+  });
+
+  it("rejects a job switching off a switch the defaults turn on", () => {
+    const config = parseConfig(
+      JSON.stringify({
+        defaults: { threads: true },
+        jobs: { plain: { query: "q", incremental: false }, threaded: { query: "q", threads: true } },
+      }),
+      path
+    );
+    expect(config.jobs.get("plain")).toEqual(["q"]);
+
+    expect(() =>
+      parseConfig(
+        JSON.stringify({
+          defaults: { incremental: true },
+          jobs: { full: { query: "q", incremental: false } },
+        }),
+        path
+      )
+    ).toThrow(`job "full": "incremental": false cannot switch off "incremental" from "defaults"`);
+  });
+
+  it("accepts an empty config", () => {
+    const config = parseConfig("{}", path);
+
+    expect(config.defaults).toEqual([]);
+    expect(config.jobs.size).toBe(0);
+  });
+
+  it("explains what is wrong and where", () => {
+    expect(() => parseConfig("{", path)).toThrow(`${path}: Invalid JSON`);
+    expect(() => parseConfig("[]", path)).toThrow("Expected a JSON object");
+    expect(() => parseConfig('{"job": {}}', path)).toThrow('Unknown setting "job"');
+    expect(() => parseConfig('{"tokens": 1}', path)).toThrow('"tokens" must be a path');
+    expect(() => parseConfig('{"jobs": {"x": {"output": "a.zip"}}}', path)).toThrow(
+      `${path}: job "x": "query" is required`
+    );
+    expect(() => parseConfig('{"jobs": {"x": {"query": "q", "dry-run": true}}}', path)).toThrow(
+      'job "x": Unknown option "dry-run"'
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-config-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns null without a config file", async () => {
+    expect(await loadConfig([join(dir, "a.json"), join(dir, "b.json")])).toBeNull();
+  });
+
+  it("uses the first config file found", async () => {
+    await mkdir(join(dir, "xdg"));
+    await writeFile(join(dir, "xdg", "config.json"), '{"defaults": {"concurrency": 2}}');
+    await writeFile(join(dir, "project.json"), '{"defaults": {"concurrency": 8}}');
+
+    const fromXdg = await loadConfig([join(dir, "missing.json"), join(dir, "xdg", "config.json")]);
+    const fromProject = await loadConfig([join(dir, "project.json"), join(dir, "xdg", "config.json")]);
+
+    expect(fromXdg?.defaults).toEqual(["--concurrency", "2"]);
+    expect(fromProject?.defaults).toEqual(["--concurrency", "8"]);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import {
+  exists,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readlink,
+  rm,
+  stat,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { existingFiles, writeFilesToDirectory, writeLinksToDirectory } from "../directory";
+
+describe("writeFilesToDirectory", () => {
+  let outputDir: string;
+  let mockConsoleWarn: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), "gmail-attachments-"));
+    mockConsoleWarn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    mockConsoleWarn.mockRestore();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  async function source(name: string, data: string): Promise<string> {
+    const sourcePath = join(outputDir, name);
+    await writeFile(sourcePath, data);
+    return sourcePath;
+  }
+
+  it("moves files into nested folders", async () => {
+    const first = await source("1.part", "one");
+    const written = await writeFilesToDirectory(
+      [
+        { filename: "a@x.com/one.txt", sourcePath: first },
+        { filename: "b@y.com/two.txt", sourcePath: await source("2.part", "two") },
+      ],
+      outputDir
+    );
+
+    expect(written).toEqual([
+      join(outputDir, "a@x.com/one.txt"),
+      join(outputDir, "b@y.com/two.txt"),
+    ]);
+    expect(await readFile(join(outputDir, "a@x.com/one.txt"), "utf8")).toBe("one");
+    expect(await readFile(join(outputDir, "b@y.com/two.txt"), "utf8")).toBe("two");
+    expect(await exists(first)).toBe(false);
+  });
+
+  it("sets the modification time when known", async () => {
+    const modifiedAt = new Date("2024-03-15T09:30:00Z");
+    await writeFilesToDirectory(
+      [{ filename: "a.txt", sourcePath: await source("1.part", "a"), modifiedAt }],
+      outputDir
+    );
+
+    expect((await stat(join(outputDir, "a.txt"))).mtime).toEqual(modifiedAt);
+  });
+
+  it("renames duplicate filenames within a folder", async () => {
+    await writeFilesToDirectory(
+      [
+        { filename: "msg/doc.pdf", sourcePath: await source("1.part", "first") },
+        { filename: "msg/doc.pdf", sourcePath: await source("2.part", "second") },
+      ],
+      outputDir
+    );
+
+    expect(await readFile(join(outputDir, "msg/doc.pdf"), "utf8")).toBe("first");
+    expect(await readFile(join(outputDir, "msg/doc_1.pdf"), "utf8")).toBe("second");
+  });
+
+  it("warns when overwriting an existing file", async () => {
+    await writeFile(join(outputDir, "existing.txt"), "old");
+
+    await writeFilesToDirectory(
+      [{ filename: "existing.txt", sourcePath: await source("1.part", "new") }],
+      outputDir
+    );
+
+    expect(mockConsoleWarn).toHaveBeenCalledWith(
+      `Warning: Overwriting existing file: ${join(outputDir, "existing.txt")}`
+    );
+    expect(await readFile(join(outputDir, "existing.txt"), "utf8")).toBe("new");
+  });
+
+  it("reports a descriptive error when a folder cannot be created", async () => {
+    // A regular file where a folder is needed makes mkdir fail
+    await writeFile(join(outputDir, "blocked"), "not a folder");
+
+    await expect(
+      writeFilesToDirectory(
+        [{ filename: "blocked/file.txt", sourcePath: await source("1.part", "x") }],
+        outputDir
+      )
+    ).rejects.toThrow(`Failed to write file to "${join(outputDir, "blocked/file.txt")}"`);
+  });
+});
+
+describe("writeLinksToDirectory", () => {
+  let outputDir: string;
+  let mockConsoleWarn: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), "gmail-attachments-"));
+    mockConsoleWarn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    mockConsoleWarn.mockRestore();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it("creates relative links in nested folders", async () => {
+    await writeFile(join(outputDir, "doc.pdf"), "content");
+
+    const written = await writeLinksToDirectory(
+      [{ filename: "msg/doc.pdf", target: "../doc.pdf" }],
+      outputDir
+    );
+
+    expect(written).toEqual([join(outputDir, "msg/doc.pdf")]);
+    expect(await readlink(join(outputDir, "msg/doc.pdf"))).toBe("../doc.pdf");
+    expect(await readFile(join(outputDir, "msg/doc.pdf"), "utf8")).toBe("content");
+  });
+
+  it("replaces an existing file with a warning", async () => {
+    await writeFile(join(outputDir, "copy.pdf"), "old");
+
+    await writeLinksToDirectory([{ filename: "copy.pdf", target: "doc.pdf" }], outputDir);
+
+    expect(mockConsoleWarn).toHaveBeenCalledWith(
+      `Warning: Overwriting existing file: ${join(outputDir, "copy.pdf")}`
+    );
+    expect(await readlink(join(outputDir, "copy.pdf"))).toBe("doc.pdf");
+  });
+});
+
+describe("existingFiles", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), "gmail-attachments-"));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it("lists files and links in nested folders", async () => {
+    await mkdir(join(outputDir, "vendor.com", "empty"), { recursive: true });
+    await writeFile(join(outputDir, "vendor.com", "invoice.pdf"), "");
+    await symlink("vendor.com/invoice.pdf", join(outputDir, "copy.pdf"));
+
+    expect(await existingFiles(outputDir)).toEqual(
+      new Set(["vendor.com/invoice.pdf", "copy.pdf"])
+    );
+  });
+
+  it("returns nothing for a missing directory", async () => {
+    expect(await existingFiles(join(outputDir, "missing"))).toEqual(new Set());
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { hashContent, resolveDuplicates, type HashedFile } from "../duplicates";
+
+function file(filename: string, content: string, messageId: string): HashedFile {
+  const attachment: AttachmentInfo = {
+    attachmentId: `att-${messageId}`,
+    filename: filename.split("/").pop()!,
+    mimeType: "application/pdf",
+    size: content.length,
+    messageId,
+    threadId: "thread1",
+    from: "alice@example.com",
+    subject: "Contract",
+    date: "2024-03-15T09:30:00.000Z",
+  };
+  return {
+    filename,
+    sourcePath: `/spool/${messageId}.part`,
+    sha256: hashContent(Buffer.from(content)),
+    size: content.length,
+    attachment,
+  };
+}
+
+describe("hashContent", () => {
+  it("returns the hex SHA-256 digest", () => {
+    expect(hashContent(Buffer.from("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("resolveDuplicates", () => {
+  const files = [
+    file("contract.pdf", "same", "m1"),
+    file("contract.pdf", "same", "m2"),
+    file("contract.pdf", "different", "m3"),
+    file("notes.txt", "same", "m4"),
+  ];
+
+  it("stores every copy in keep mode", () => {
+    const result = resolveDuplicates(files, "keep");
+
+    expect(result.files.map((f) => f.filename)).toEqual([
+      "contract.pdf",
+      "contract_1.pdf",
+      "contract_2.pdf",
+      "notes.txt",
+    ]);
+    expect(result.links).toEqual([]);
+    expect(result.duplicates).toEqual([]);
+  });
+
+  it("keeps clear of names already taken", () => {
+    const result = resolveDuplicates(files, "dedupe", new Set(["contract.pdf", "notes.txt"]));
+
+    expect(result.files.map((f) => f.filename)).toEqual(["contract_1.pdf", "contract_2.pdf"]);
+    expect(result.placements.map((p) => p.path)).toContain("contract_1.pdf");
+  });
+
+  it("stores identical content once in dedupe mode", () => {
+    const result = resolveDuplicates(files, "dedupe");
+
+    expect(result.files.map((f) => f.filename)).toEqual([
+      "contract.pdf",
+      "contract_1.pdf",
+    ]);
+    expect(result.files.map((f) => f.sourcePath)).toEqual([
+      "/spool/m1.part",
+      "/spool/m3.part",
+    ]);
+    expect(result.links).toEqual([]);
+  });
+
+  it("lists the messages that contained each duplicate", () => {
+    const { duplicates } = resolveDuplicates(files, "dedupe");
+
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].path).toBe("contract.pdf");
+    expect(duplicates[0].sha256).toBe(hashContent(Buffer.from("same")));
+    expect(duplicates[0].size).toBe(4);
+    expect(duplicates[0].sources.map((s) => [s.messageId, s.filename])).toEqual([
+      ["m1", "contract.pdf"],
+      ["m2", "contract.pdf"],
+      ["m4", "notes.txt"],
+    ]);
+    expect(duplicates[0].sources[0]).toMatchObject({
+      threadId: "thread1",
+      from: "alice@example.com",
+      subject: "Contract",
+      date: "2024-03-15T09:30:00.000Z",
+    });
+  });
+
+  it("links copies to the stored file in link mode", () => {
+    const result = resolveDuplicates(files, "link");
+
+    expect(result.files.map((f) => f.filename)).toEqual([
+      "contract.pdf",
+      "contract_2.pdf",
+    ]);
+    expect(result.links).toEqual([
+      { filename: "contract_1.pdf", target: "contract.pdf", modifiedAt: undefined },
+      { filename: "notes.txt", target: "contract.pdf", modifiedAt: undefined },
+    ]);
+    expect(result.duplicates).toHaveLength(1);
+  });
+
+  it("reports where every file ended up", () => {
+    const placed = (mode: "keep" | "dedupe" | "link") =>
+      resolveDuplicates(files, mode).placements.map((p) => [
+        p.file.attachment.messageId,
+        p.path,
+        p.linkTo,
+      ]);
+
+    expect(placed("keep")).toEqual([
+      ["m1", "contract.pdf", undefined],
+      ["m2", "contract_1.pdf", undefined],
+      ["m3", "contract_2.pdf", undefined],
+      ["m4", "notes.txt", undefined],
+    ]);
+    expect(placed("dedupe")).toEqual([
+      ["m1", "contract.pdf", undefined],
+      ["m2", "contract.pdf", undefined],
+      ["m3", "contract_1.pdf", undefined],
+      ["m4", "contract.pdf", undefined],
+    ]);
+    expect(placed("link")).toEqual([
+      ["m1", "contract.pdf", undefined],
+      ["m2", "contract_1.pdf", "contract.pdf"],
+      ["m3", "contract_2.pdf", undefined],
+      ["m4", "notes.txt", "contract.pdf"],
+    ]);
+  });
+
+  it("makes link targets relative to the link's folder", () => {
+    const result = resolveDuplicates(
+      [file("m1/a.pdf", "same", "m1"), file("m2/sub/a.pdf", "same", "m2")],
+      "link"
+    );
+
+    expect(result.links[0].target).toBe("../../m1/a.pdf");
+  });
+});
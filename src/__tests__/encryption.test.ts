@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import { join } from "node:path";
+import {
+  clearPassphrase,
+  decryptJson,
+  encryptJson,
+  getPassphrase,
+  isEncrypted,
+  PASSPHRASE_ENV,
+} from "../encryption";
+import * as encryption from "../encryption";
+
+describe("encryptJson and decryptJson", () => {
+  const token = { access_token: "access", refresh_token: "refresh", expiry_date: 1234567890 };
+
+  it("round-trips a value without storing it in clear", async () => {
+    const encrypted = await encryptJson(token, "secret");
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(JSON.stringify(encrypted)).not.toContain("refresh");
+    expect(await decryptJson(encrypted, "secret")).toEqual(token);
+  });
+
+  it("uses a fresh salt and IV every time", async () => {
+    const first = await encryptJson(token, "secret");
+    const second = await encryptJson(token, "secret");
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const encrypted = await encryptJson(token, "secret");
+
+    await expect(decryptJson(encrypted, "guess")).rejects.toThrow(
+      "Wrong passphrase or damaged data"
+    );
+  });
+
+  it("rejects changed data", async () => {
+    const encrypted = await encryptJson(token, "secret");
+    const data = Buffer.from(encrypted.data, "base64");
+    data[0] ^= 1;
+
+    await expect(
+      decryptJson({ ...encrypted, data: data.toString("base64") }, "secret")
+    ).rejects.toThrow("Wrong passphrase or damaged data");
+  });
+
+  it("rejects unknown formats", async () => {
+    const encrypted = await encryptJson(token, "secret");
+
+    await expect(
+      decryptJson({ ...encrypted, version: 2 } as any, "secret")
+    ).rejects.toThrow("Unsupported encryption format");
+  });
+});
+
+describe("isEncrypted", () => {
+  it("tells plain tokens apart", () => {
+    expect(isEncrypted({ access_token: "access" })).toBe(false);
+    expect(isEncrypted(null)).toBe(false);
+  });
+});
+
+describe("getPassphrase", () => {
+  let mockReadLine: ReturnType<typeof spyOn> | undefined;
+
+  afterEach(() => {
+    delete process.env[PASSPHRASE_ENV];
+    mockReadLine?.mockRestore();
+    mockReadLine = undefined;
+    clearPassphrase();
+  });
+
+  it("prefers the environment variable", async () => {
+    process.env[PASSPHRASE_ENV] = "from env";
+    mockReadLine = spyOn(encryption, "readLine");
+
+    expect(await getPassphrase(true)).toBe("from env");
+    expect(mockReadLine).not.toHaveBeenCalled();
+  });
+
+  it("asks once per run", async () => {
+    mockReadLine = spyOn(encryption, "readLine").mockImplementation(async () => "typed");
+
+    expect(await getPassphrase()).toBe("typed");
+    expect(await getPassphrase()).toBe("typed");
+    expect(mockReadLine).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks twice for a new passphrase", async () => {
+    const answers = ["typed", "typo"];
+    mockReadLine = spyOn(encryption, "readLine").mockImplementation(async () => answers.shift()!);
+
+    await expect(getPassphrase(true)).rejects.toThrow("Passphrases do not match.");
+  });
+
+  it("requires a passphrase", async () => {
+    mockReadLine = spyOn(encryption, "readLine").mockImplementation(async () => null);
+
+    await expect(getPassphrase()).rejects.toThrow(`set ${PASSPHRASE_ENV}`);
+  });
+
+  it("keeps standard output clean when no terminal is attached", async () => {
+    const module = join(import.meta.dir, "..", "encryption.ts");
+    const child = Bun.spawn(
+      [
+        process.execPath,
+        "-e",
+        `const { getPassphrase } = await import(${JSON.stringify(module)});
+         process.stderr.write("got " + (await getPassphrase()));`,
+      ],
+      { stdin: Buffer.from("typed\n"), stdout: "pipe", stderr: "pipe" }
+    );
+    const [stdout, stderr] = await Promise.all([
+      new Response(child.stdout).text(),
+      new Response(child.stderr).text(),
+    ]);
+    await child.exited;
+
+    expect(stdout).toBe("");
+    expect(stderr).toContain("Passphrase for saved tokens:");
+    expect(stderr).toContain("got typed");
+  });
+});
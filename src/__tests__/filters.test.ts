@@ -0,0 +1,218 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import {
+  applyFilters,
+  describeFiltered,
+  emptyFilters,
+  filterReason,
+  globToRegExp,
+  hasFilters,
+  parseExtensions,
+  parsePattern,
+  parseSize,
+  restoreFilters,
+  saveFilters,
+  type FilterOptions,
+} from "../filters";
+
+function attachment(filename: string, mimeType: string, size: number): AttachmentInfo {
+  return { attachmentId: "a", filename, mimeType, size, messageId: "m" };
+}
+
+function filters(options: Partial<FilterOptions>): FilterOptions {
+  return { ...emptyFilters(), ...options };
+}
+
+describe("parseSize", () => {
+  it("parses plain byte counts", () => {
+    expect(parseSize("500")).toBe(500);
+  });
+
+  it("parses K, M and G suffixes as powers of 1024", () => {
+    expect(parseSize("10K")).toBe(10 * 1024);
+    expect(parseSize("5m")).toBe(5 * 1024 * 1024);
+    expect(parseSize("1GB")).toBe(1024 * 1024 * 1024);
+    expect(parseSize("1.5M")).toBe(1.5 * 1024 * 1024);
+  });
+
+  it("throws for invalid sizes", () => {
+    expect(() => parseSize("big")).toThrow('Invalid size "big"');
+    expect(() => parseSize("-1K")).toThrow("Invalid size");
+    expect(() => parseSize("")).toThrow("Invalid size");
+  });
+});
+
+describe("parseExtensions", () => {
+  it("splits, lower-cases and strips dots", () => {
+    expect(parseExtensions("pdf, .DOCX,,xlsx")).toEqual(["pdf", "docx", "xlsx"]);
+  });
+});
+
+describe("globToRegExp", () => {
+  it("matches * and ? case-insensitively", () => {
+    const pattern = globToRegExp("invoice-*.pd?");
+
+    expect(pattern.test("Invoice-2024-03.PDF")).toBe(true);
+    expect(pattern.test("invoice-.pdf")).toBe(true);
+    expect(pattern.test("my-invoice-1.pdf")).toBe(false);
+  });
+
+  it("treats other characters literally", () => {
+    const pattern = globToRegExp("report(1)+.txt");
+
+    expect(pattern.test("report(1)+.txt")).toBe(true);
+    expect(pattern.test("report1.txt")).toBe(false);
+  });
+});
+
+describe("parsePattern", () => {
+  it("treats /.../ as a regular expression with flags", () => {
+    const pattern = parsePattern("/^scan_\\d+\\.jpg$/i");
+
+    expect(pattern.test("SCAN_001.JPG")).toBe(true);
+    expect(pattern.test("scan_x.jpg")).toBe(false);
+  });
+
+  it("treats anything else as a glob", () => {
+    expect(parsePattern("*.pdf").test("a.pdf")).toBe(true);
+  });
+
+  it("ignores the g and y flags so every filename is tested from the start", () => {
+    const pattern = parsePattern("/inv/gy");
+
+    expect(pattern.flags).toBe("");
+    expect(["inv1.pdf", "inv2.pdf", "inv3.pdf"].map((name) => pattern.test(name))).toEqual([
+      true,
+      true,
+      true,
+    ]);
+  });
+
+  it("throws for invalid regular expressions", () => {
+    expect(() => parsePattern("/(unclosed/")).toThrow("Invalid regular expression");
+  });
+});
+
+describe("saveFilters and restoreFilters", () => {
+  it("round-trips options through JSON", () => {
+    const options = filters({
+      extensions: ["pdf"],
+      minSize: 1024,
+      include: [parsePattern("invoice-*.pdf"), parsePattern("/^scan_\\d+/i")],
+      exclude: [parsePattern("*/draft*")],
+    });
+
+    const saved = JSON.parse(JSON.stringify(saveFilters(options)));
+    const restored = restoreFilters(saved);
+
+    expect(restored.extensions).toEqual(["pdf"]);
+    expect(restored.minSize).toBe(1024);
+    expect(restored.include.map(String)).toEqual(options.include.map(String));
+    expect(restored.exclude.map(String)).toEqual(options.exclude.map(String));
+    expect(restored.include[0].test("INVOICE-7.pdf")).toBe(true);
+  });
+});
+
+describe("hasFilters", () => {
+  it("is false for empty options", () => {
+    expect(hasFilters(emptyFilters())).toBe(false);
+  });
+
+  it("is true when any filter is set", () => {
+    expect(hasFilters(filters({ inline: "exclude" }))).toBe(true);
+    expect(hasFilters(filters({ minSize: 0 }))).toBe(true);
+    expect(hasFilters(filters({ exclude: [/x/] }))).toBe(true);
+  });
+});
+
+describe("filterReason", () => {
+  const pdf = attachment("Report.PDF", "application/pdf", 50_000);
+  const logo = attachment("logo.png", "image/png", 2_000);
+  const invite = attachment("invite.ics", "text/calendar", 1_000);
+
+  it("keeps everything without filters", () => {
+    expect(filterReason(pdf, emptyFilters())).toBeUndefined();
+  });
+
+  it("filters inline parts", () => {
+    const inlineLogo = { ...logo, inline: true };
+
+    expect(filterReason(inlineLogo, filters({ inline: "exclude" }))).toBe("inline");
+    expect(filterReason(pdf, filters({ inline: "exclude" }))).toBeUndefined();
+    expect(filterReason(pdf, filters({ inline: "only" }))).toBe("inline");
+    expect(filterReason(inlineLogo, filters({ inline: "only" }))).toBeUndefined();
+  });
+
+  it("filters by MIME type, with family wildcards", () => {
+    expect(filterReason(pdf, filters({ mimeTypes: ["image/*"] }))).toBe("mime");
+    expect(filterReason(logo, filters({ mimeTypes: ["image/*"] }))).toBeUndefined();
+    expect(filterReason(pdf, filters({ mimeTypes: ["Application/PDF"] }))).toBeUndefined();
+  });
+
+  it("filters by included and excluded extensions, ignoring case", () => {
+    expect(filterReason(pdf, filters({ extensions: ["pdf"] }))).toBeUndefined();
+    expect(filterReason(logo, filters({ extensions: ["pdf"] }))).toBe("ext");
+    expect(filterReason(invite, filters({ excludeExtensions: ["ics"] }))).toBe(
+      "exclude-ext"
+    );
+  });
+
+  it("does not treat a leading dot as an extension", () => {
+    const dotfile = attachment(".env", "text/plain", 10);
+
+    expect(filterReason(dotfile, filters({ excludeExtensions: ["env"] }))).toBeUndefined();
+  });
+
+  it("filters by size bounds, inclusive", () => {
+    expect(filterReason(logo, filters({ minSize: 10_000 }))).toBe("min-size");
+    expect(filterReason(pdf, filters({ maxSize: 10_000 }))).toBe("max-size");
+    expect(filterReason(logo, filters({ minSize: 2_000, maxSize: 2_000 }))).toBeUndefined();
+  });
+
+  it("filters by include and exclude patterns", () => {
+    expect(filterReason(pdf, filters({ include: [/^invoice/i] }))).toBe("include");
+    expect(
+      filterReason(pdf, filters({ include: [/^invoice/i, /report/i] }))
+    ).toBeUndefined();
+    expect(filterReason(logo, filters({ exclude: [globToRegExp("logo*")] }))).toBe(
+      "exclude"
+    );
+  });
+
+  it("reports the first failing filter", () => {
+    expect(
+      filterReason(logo, filters({ extensions: ["pdf"], minSize: 10_000 }))
+    ).toBe("ext");
+  });
+});
+
+describe("applyFilters", () => {
+  it("keeps matching attachments in order and counts the rest by reason", () => {
+    const attachments = [
+      attachment("a.pdf", "application/pdf", 50_000),
+      attachment("logo.png", "image/png", 2_000),
+      attachment("invite.ics", "text/calendar", 1_000),
+      attachment("b.pdf", "application/pdf", 60_000),
+    ];
+
+    const result = applyFilters(
+      attachments,
+      filters({ excludeExtensions: ["ics"], minSize: 10_000 })
+    );
+
+    expect(result.kept.map((a) => a.filename)).toEqual(["a.pdf", "b.pdf"]);
+    expect(result.filtered).toEqual({ "exclude-ext": 1, "min-size": 1 });
+  });
+});
+
+describe("describeFiltered", () => {
+  it("lists counts with their reasons", () => {
+    expect(describeFiltered({ "min-size": 3, exclude: 1 })).toBe(
+      "3 smaller than --min-size, 1 excluded by --exclude"
+    );
+  });
+
+  it("returns an empty string when nothing was filtered", () => {
+    expect(describeFiltered({})).toBe("");
+  });
+});
@@ -5,7 +5,19 @@ import {
   withRetry,
   searchMessages,
   getMessageAttachments,
+  getMessageMetadata,
+  getLabelNames,
+  batchGetMessageAttachments,
+  MESSAGE_FIELDS,
   downloadAttachment,
+  getRawMessage,
+  getHistoryId,
+  listHistory,
+  getOrCreateLabel,
+  modifyMessages,
+  trashMessage,
+  searchThreads,
+  getThreadMessageIds,
 } from "../gmail";
 
 describe("extractAttachments", () => {
@@ -160,6 +172,136 @@ describe("extractAttachments", () => {
   });
 });
 
+describe("extractAttachments inline classification", () => {
+  function part(
+    headers: Record<string, string>,
+    overrides: gmail_v1.Schema$MessagePart = {}
+  ): gmail_v1.Schema$MessagePart {
+    return {
+      partId: "1.2",
+      filename: "logo.png",
+      mimeType: "image/png",
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      body: { attachmentId: "att1", size: 2048 },
+      ...overrides,
+    };
+  }
+
+  it("marks parts with an inline disposition as inline", () => {
+    const [result] = extractAttachments(
+      [part({ "Content-Disposition": 'inline; filename="logo.png"' })],
+      "msg1"
+    );
+
+    expect(result.inline).toBe(true);
+  });
+
+  it("marks parts with a Content-ID and no disposition as inline", () => {
+    const [result] = extractAttachments(
+      [part({ "Content-ID": "<logo@corp>" })],
+      "msg1"
+    );
+
+    expect(result.inline).toBe(true);
+    expect(result.contentId).toBe("logo@corp");
+  });
+
+  it("treats an attachment disposition as regular even with a Content-ID", () => {
+    const [result] = extractAttachments(
+      [part({ "content-disposition": "ATTACHMENT", "Content-ID": "<x@y>" })],
+      "msg1"
+    );
+
+    expect(result.inline).toBeUndefined();
+    expect(result.contentId).toBe("x@y");
+  });
+
+  it("treats parts without these headers as regular attachments", () => {
+    const [result] = extractAttachments([part({})], "msg1");
+
+    expect(result.inline).toBeUndefined();
+    expect(result.contentId).toBeUndefined();
+  });
+
+  it("names nameless inline parts after their Content-ID", () => {
+    const result = extractAttachments(
+      [
+        part({ "Content-ID": "<image001.png@01D9A1B2.C3D4E5F0>" }, { filename: "" }),
+        part({ "Content-ID": "<ii_kz3q9s0>" }, { filename: "", mimeType: "image/jpeg" }),
+      ],
+      "msg1"
+    );
+
+    expect(result.map((a) => a.filename)).toEqual(["image001.png", "ii_kz3q9s0.jpg"]);
+    expect(result.every((a) => a.inline)).toBe(true);
+  });
+
+  it("names nameless inline parts without a Content-ID after their part", () => {
+    const [result] = extractAttachments(
+      [part({ "Content-Disposition": "inline" }, { filename: "", mimeType: "image/x-icon" })],
+      "msg1"
+    );
+
+    expect(result.filename).toBe("inline-1.2.bin");
+  });
+
+  it("skips nameless parts that are not inline, and nameless text bodies", () => {
+    const result = extractAttachments(
+      [
+        part({}, { filename: "", mimeType: "image/png" }),
+        part({ "Content-Disposition": "inline" }, { filename: "", mimeType: "text/html" }),
+      ],
+      "msg1"
+    );
+
+    expect(result).toEqual([]);
+  });
+});
+
+describe("extractAttachments attached messages", () => {
+  it("keeps nameless attached messages and names them after their part", () => {
+    const [result] = extractAttachments(
+      [
+        {
+          partId: "2",
+          filename: "",
+          mimeType: "message/rfc822",
+          headers: [],
+          body: { attachmentId: "att2", size: 4096 },
+        },
+      ],
+      "msg1"
+    );
+
+    expect(result.filename).toBe("message-2.eml");
+    expect(result.attachmentId).toBe("att2");
+  });
+
+  it("does not list the parts of an attached message a second time", () => {
+    const result = extractAttachments(
+      [
+        {
+          partId: "2",
+          filename: "Fwd: Invoice.eml",
+          mimeType: "message/rfc822",
+          body: { attachmentId: "att2", size: 4096 },
+          parts: [
+            {
+              partId: "2.1",
+              filename: "invoice.pdf",
+              mimeType: "application/pdf",
+              body: { attachmentId: "att3", size: 2048 },
+            },
+          ],
+        },
+      ],
+      "msg1"
+    );
+
+    expect(result.map((a) => a.filename)).toEqual(["Fwd: Invoice.eml"]);
+  });
+});
+
 describe("withRetry", () => {
   let mockConsoleWarn: ReturnType<typeof spyOn>;
   let mockSleep: ReturnType<typeof spyOn>;
@@ -420,6 +562,83 @@ describe("searchMessages", () => {
   });
 });
 
+describe("searchMessages limits and ordering", () => {
+  function pagedList(pages: string[][]) {
+    let call = 0;
+    return mock((params: { maxResults: number }) => {
+      const ids = pages[call];
+      call++;
+      return Promise.resolve({
+        data: {
+          messages: ids.map((id) => ({ id })),
+          nextPageToken: call < pages.length ? `page${call}` : undefined,
+        },
+      });
+    });
+  }
+
+  async function withGmail<T>(list: unknown, run: () => Promise<T>): Promise<T> {
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({ users: { messages: { list } } })) as unknown as typeof google.gmail;
+    try {
+      return await run();
+    } finally {
+      google.gmail = originalGmail;
+    }
+  }
+
+  it("stops paging once the limit is reached", async () => {
+    const list = pagedList([["m1", "m2"], ["m3", "m4"], ["m5"]]);
+
+    const result = await withGmail(list, () =>
+      searchMessages({} as any, "q", { limit: 3 })
+    );
+
+    expect(result).toEqual(["m1", "m2", "m3"]);
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it("requests pages no larger than the remaining limit", async () => {
+    const list = pagedList([["m1", "m2"], ["m3"]]);
+
+    await withGmail(list, () => searchMessages({} as any, "q", { limit: 3 }));
+
+    expect((list.mock.calls[0] as any)[0].maxResults).toBe(3);
+    expect((list.mock.calls[1] as any)[0].maxResults).toBe(1);
+  });
+
+  it("uses the largest page size without a limit", async () => {
+    const list = pagedList([["m1"]]);
+
+    await withGmail(list, () => searchMessages({} as any, "q"));
+
+    expect((list.mock.calls[0] as any)[0].maxResults).toBe(500);
+  });
+
+  it("pages through everything and reverses for oldest first", async () => {
+    const list = pagedList([["m5", "m4"], ["m3", "m2"], ["m1"]]);
+
+    const result = await withGmail(list, () =>
+      searchMessages({} as any, "q", { limit: 2, order: "oldest" })
+    );
+
+    expect(result).toEqual(["m1", "m2"]);
+    expect(list).toHaveBeenCalledTimes(3);
+  });
+
+  it("searches the signed-in user's mailbox unless another user is given", async () => {
+    const own = pagedList([["m1"]]);
+    const other = pagedList([["m1"]]);
+
+    await withGmail(own, () => searchMessages({} as any, "q"));
+    await withGmail(other, () => searchMessages({} as any, "q", {}, "alice@example.com"));
+
+    expect((own.mock.calls[0] as any)[0].userId).toBe("me");
+    expect((other.mock.calls[0] as any)[0].userId).toBe("alice@example.com");
+  });
+});
+
 describe("getMessageAttachments", () => {
   it("extracts attachments from multipart message", async () => {
     const mockGet = mock(() =>
@@ -500,6 +719,281 @@ describe("getMessageAttachments", () => {
   });
 });
 
+describe("getMessageMetadata", () => {
+  it("reads headers, thread and labels", () => {
+    const result = getMessageMetadata({
+      threadId: "thread1",
+      labelIds: ["INBOX", "Label_1"],
+      payload: {
+        headers: [
+          { name: "from", value: "Billing <billing@vendor.io>" },
+          { name: "To", value: "me@example.com" },
+          { name: "Subject", value: "Invoice" },
+          { name: "Date", value: "Fri, 15 Mar 2024 09:30:00 +0000" },
+        ],
+      },
+    });
+
+    expect(result).toEqual({
+      threadId: "thread1",
+      from: "Billing <billing@vendor.io>",
+      to: "me@example.com",
+      subject: "Invoice",
+      date: "2024-03-15T09:30:00.000Z",
+      labelIds: ["INBOX", "Label_1"],
+    });
+  });
+
+  it("falls back to the internal date when the Date header is invalid", () => {
+    const result = getMessageMetadata({
+      internalDate: "1710495000000",
+      payload: { headers: [{ name: "Date", value: "not a date" }] },
+    });
+
+    expect(result.date).toBe("2024-03-15T09:30:00.000Z");
+  });
+
+  it("leaves fields undefined when the message has no headers", () => {
+    const result = getMessageMetadata({});
+
+    expect(result.from).toBeUndefined();
+    expect(result.date).toBeUndefined();
+  });
+});
+
+describe("getMessageAttachments metadata", () => {
+  it("attaches message metadata to every attachment", async () => {
+    const mockGet = mock(() =>
+      Promise.resolve({
+        data: {
+          threadId: "thread1",
+          payload: {
+            headers: [
+              { name: "Subject", value: "Invoices" },
+              { name: "from", value: "Billing <billing@vendor.io>" },
+            ],
+            parts: [
+              {
+                filename: "a.pdf",
+                mimeType: "application/pdf",
+                body: { attachmentId: "att1", size: 10 },
+              },
+              {
+                filename: "b.pdf",
+                mimeType: "application/pdf",
+                body: { attachmentId: "att2", size: 20 },
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    const mockGmail = { users: { messages: { get: mockGet } } };
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => mockGmail) as unknown as typeof google.gmail;
+
+    try {
+      const mockAuth = {} as any;
+      const result = await getMessageAttachments(mockAuth, "msg123");
+
+      expect(result).toHaveLength(2);
+      for (const attachment of result) {
+        expect(attachment.from).toBe("Billing <billing@vendor.io>");
+        expect(attachment.subject).toBe("Invoices");
+        expect(attachment.threadId).toBe("thread1");
+      }
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("getLabelNames", () => {
+  it("maps label IDs to names", async () => {
+    const mockList = mock(() =>
+      Promise.resolve({
+        data: {
+          labels: [
+            { id: "INBOX", name: "INBOX" },
+            { id: "Label_1", name: "Finance" },
+            { id: "Label_2" },
+          ],
+        },
+      })
+    );
+
+    const mockGmail = { users: { labels: { list: mockList } } };
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => mockGmail) as unknown as typeof google.gmail;
+
+    try {
+      const mockAuth = {} as any;
+      const result = await getLabelNames(mockAuth);
+
+      expect(result).toEqual(
+        new Map([
+          ["INBOX", "INBOX"],
+          ["Label_1", "Finance"],
+        ])
+      );
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("MESSAGE_FIELDS", () => {
+  it("requests the part tree without body data", () => {
+    expect(MESSAGE_FIELDS).toStartWith("id,threadId,labelIds,internalDate,payload(");
+    expect(MESSAGE_FIELDS).toContain("body(attachmentId,size)");
+    expect(MESSAGE_FIELDS).not.toContain("body,");
+    expect(MESSAGE_FIELDS).not.toContain("body)");
+  });
+
+  it("has balanced parentheses", () => {
+    const opening = MESSAGE_FIELDS.split("(").length;
+    const closing = MESSAGE_FIELDS.split(")").length;
+    expect(opening).toBe(closing);
+  });
+});
+
+describe("batchGetMessageAttachments", () => {
+  let mockSleep: ReturnType<typeof spyOn>;
+  let mockConsoleWarn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    mockSleep = spyOn(Bun, "sleep").mockImplementation(() => Promise.resolve());
+    mockConsoleWarn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mockSleep.mockRestore();
+    mockConsoleWarn.mockRestore();
+  });
+
+  function multipart(items: { status: number; body: unknown }[]) {
+    return {
+      headers: { "content-type": "multipart/mixed; boundary=resp" },
+      data:
+        items
+          .map(
+            ({ status, body }, index) =>
+              "--resp\r\nContent-Type: application/http\r\n" +
+              `Content-ID: <response-item-${index}>\r\n\r\n` +
+              `HTTP/1.1 ${status} X\r\nContent-Type: application/json\r\n\r\n` +
+              `${JSON.stringify(body)}\r\n`
+          )
+          .join("") + "--resp--\r\n",
+    };
+  }
+
+  const message = (id: string) => ({
+    id,
+    threadId: `t-${id}`,
+    payload: {
+      headers: [{ name: "From", value: "a@b.com" }],
+      parts: [
+        {
+          partId: "1",
+          filename: `${id}.pdf`,
+          mimeType: "application/pdf",
+          body: { attachmentId: `att-${id}`, size: 10 },
+        },
+      ],
+    },
+  });
+
+  it("returns attachments for every message in request order", async () => {
+    const request = mock(() =>
+      Promise.resolve(multipart([
+        { status: 200, body: message("m1") },
+        { status: 200, body: message("m2") },
+      ]))
+    );
+
+    const result = await batchGetMessageAttachments({ request } as any, ["m1", "m2"]);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(result.map((r) => r.messageId)).toEqual(["m1", "m2"]);
+    expect(result[0].attachments[0]).toMatchObject({
+      filename: "m1.pdf",
+      messageId: "m1",
+      partId: "1",
+      threadId: "t-m1",
+      from: "a@b.com",
+    });
+    expect(result[1].error).toBeUndefined();
+
+    const body = (request.mock.calls[0] as any)[0].data as string;
+    expect(body).toContain(
+      `GET /gmail/v1/users/me/messages/m1?format=full&fields=${encodeURIComponent(MESSAGE_FIELDS)}`
+    );
+  });
+
+  it("fetches messages from the mailbox of the given user", async () => {
+    const request = mock(() =>
+      Promise.resolve(multipart([{ status: 200, body: message("m1") }]))
+    );
+
+    await batchGetMessageAttachments({ request } as any, ["m1"], 3, "alice@example.com");
+
+    const body = (request.mock.calls[0] as any)[0].data as string;
+    expect(body).toContain("GET /gmail/v1/users/alice%40example.com/messages/m1?");
+  });
+
+  it("retries only the items that were rate limited", async () => {
+    let call = 0;
+    const request = mock(() => {
+      call++;
+      if (call === 1) {
+        return Promise.resolve(multipart([
+          { status: 200, body: message("m1") },
+          { status: 429, body: { error: { message: "Rate limit" } } },
+        ]));
+      }
+      return Promise.resolve(multipart([{ status: 200, body: message("m2") }]));
+    });
+
+    const result = await batchGetMessageAttachments({ request } as any, ["m1", "m2"]);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    const retryBody = (request.mock.calls[1] as any)[0].data as string;
+    expect(retryBody).toContain("/messages/m2?");
+    expect(retryBody).not.toContain("/messages/m1?");
+    expect(result[1].attachments[0].filename).toBe("m2.pdf");
+    expect(mockSleep).toHaveBeenCalledWith(1000);
+  });
+
+  it("reports deleted messages with a not found error", async () => {
+    const request = mock(() =>
+      Promise.resolve(multipart([{ status: 404, body: { error: { message: "Not Found" } } }]))
+    );
+
+    const [result] = await batchGetMessageAttachments({ request } as any, ["gone"]);
+
+    expect(result.attachments).toEqual([]);
+    expect(result.error?.message).toBe(
+      "Fetching message gone: Resource not found (may have been deleted)"
+    );
+  });
+
+  it("gives up on items after the maximum number of attempts", async () => {
+    const request = mock(() =>
+      Promise.resolve(multipart([{ status: 503, body: { error: { message: "Backend Error" } } }]))
+    );
+
+    const [result] = await batchGetMessageAttachments({ request } as any, ["m1"], 3);
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(result.error?.message).toBe("Fetching message m1: Backend Error");
+  });
+});
+
 describe("downloadAttachment", () => {
   it("decodes base64url data correctly", async () => {
     // "hello world" in base64url
@@ -617,4 +1111,307 @@ describe("downloadAttachment", () => {
       google.gmail = originalGmail;
     }
   });
+
+  it("downloads from the mailbox of the given user", async () => {
+    const mockGet = mock(() => Promise.resolve({ data: { data: "aGk" } }));
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { messages: { attachments: { get: mockGet } } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      await downloadAttachment({} as any, "msg123", "att456", "a.txt", "alice@example.com");
+
+      expect(mockGet).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "alice@example.com", messageId: "msg123" })
+      );
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("getRawMessage", () => {
+  it("requests the raw format and decodes it", async () => {
+    const mockGet = mock(() =>
+      Promise.resolve({
+        data: {
+          raw: Buffer.from("Subject: Hi\r\n\r\nHello").toString("base64url"),
+        },
+      })
+    );
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { messages: { get: mockGet } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      const result = await getRawMessage({} as any, "msg123");
+
+      expect(result.toString()).toBe("Subject: Hi\r\n\r\nHello");
+      expect(mockGet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "msg123", format: "raw" })
+      );
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+
+  it("throws on missing data", async () => {
+    const mockGet = mock(() => Promise.resolve({ data: {} }));
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { messages: { get: mockGet } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      await expect(getRawMessage({} as any, "msg123")).rejects.toThrow(
+        "No data in message msg123"
+      );
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("getHistoryId", () => {
+  it("reads the history ID of the mailbox profile", async () => {
+    const mockGetProfile = mock((_params: { userId: string }) =>
+      Promise.resolve({ data: { emailAddress: "me@example.com", historyId: "1234" } })
+    );
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { getProfile: mockGetProfile },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      expect(await getHistoryId({} as any, "alice@example.com")).toBe("1234");
+      expect(mockGetProfile.mock.calls[0][0].userId).toBe("alice@example.com");
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("listHistory", () => {
+  let originalGmail: any;
+
+  beforeEach(async () => {
+    const { google } = await import("googleapis");
+    originalGmail = google.gmail;
+  });
+
+  afterEach(async () => {
+    const { google } = await import("googleapis");
+    google.gmail = originalGmail;
+  });
+
+  async function mockHistory(list: (params: any) => Promise<unknown>) {
+    const { google } = await import("googleapis");
+    google.gmail = (() => ({
+      users: { history: { list } },
+    })) as unknown as typeof google.gmail;
+  }
+
+  it("collects added messages across pages", async () => {
+    const pages = [
+      {
+        data: {
+          history: [
+            { messagesAdded: [{ message: { id: "a" } }, { message: { id: "b" } }] },
+            { messagesAdded: [{ message: { id: "a" } }] },
+          ],
+          historyId: "110",
+          nextPageToken: "next",
+        },
+      },
+      {
+        data: {
+          history: [{ messagesAdded: [{ message: { id: "c" } }] }],
+          historyId: "120",
+        },
+      },
+    ];
+    const mockList = mock((_params: any) => Promise.resolve(pages.shift()));
+    await mockHistory(mockList);
+
+    const result = await listHistory({} as any, "100");
+
+    expect(result).toEqual({ messageIds: ["a", "b", "c"], historyId: "120" });
+    expect(mockList.mock.calls[0][0]).toMatchObject({
+      startHistoryId: "100",
+      historyTypes: ["messageAdded"],
+    });
+    expect(mockList.mock.calls[1][0].pageToken).toBe("next");
+  });
+
+  it("keeps the start ID when nothing changed", async () => {
+    await mockHistory(() => Promise.resolve({ data: {} }));
+
+    expect(await listHistory({} as any, "100")).toEqual({ messageIds: [], historyId: "100" });
+  });
+
+  it("returns null when the history has expired", async () => {
+    await mockHistory(() => Promise.reject({ code: 404, message: "Requested entity was not found." }));
+
+    expect(await listHistory({} as any, "100")).toBeNull();
+  });
+
+  it("throws other errors", async () => {
+    await mockHistory(() => Promise.reject({ code: 400, message: "Invalid startHistoryId" }));
+
+    await expect(listHistory({} as any, "100")).rejects.toThrow("Invalid request");
+  });
+});
+
+describe("getOrCreateLabel", () => {
+  let originalGmail: any;
+  let mockCreate: ReturnType<typeof mock>;
+
+  beforeEach(async () => {
+    mockCreate = mock((_params: any) => Promise.resolve({ data: { id: "Label_9" } }));
+    const { google } = await import("googleapis");
+    originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: {
+        labels: {
+          list: () => Promise.resolve({ data: { labels: [{ id: "Label_1", name: "Exported" }] } }),
+          create: mockCreate,
+        },
+      },
+    })) as unknown as typeof google.gmail;
+  });
+
+  afterEach(async () => {
+    const { google } = await import("googleapis");
+    google.gmail = originalGmail;
+  });
+
+  it("finds an existing label regardless of case", async () => {
+    expect(await getOrCreateLabel({} as any, "EXPORTED")).toBe("Label_1");
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("creates a missing label", async () => {
+    expect(await getOrCreateLabel({} as any, "Archived", "alice@example.com")).toBe("Label_9");
+    expect(mockCreate.mock.calls[0][0]).toMatchObject({
+      userId: "alice@example.com",
+      requestBody: { name: "Archived" },
+    });
+  });
+});
+
+describe("modifyMessages", () => {
+  it("changes labels in batches of 1000 messages", async () => {
+    const mockBatchModify = mock((_params: any) => Promise.resolve({ data: {} }));
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { messages: { batchModify: mockBatchModify } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      const ids = Array.from({ length: 1500 }, (_, i) => `m${i}`);
+      await modifyMessages({} as any, ids, { removeLabelIds: ["UNREAD"] });
+
+      expect(mockBatchModify).toHaveBeenCalledTimes(2);
+      expect(mockBatchModify.mock.calls[0][0].requestBody.ids).toHaveLength(1000);
+      expect(mockBatchModify.mock.calls[1][0].requestBody).toEqual({
+        ids: ids.slice(1000),
+        removeLabelIds: ["UNREAD"],
+      });
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("trashMessage", () => {
+  it("moves the message to the trash", async () => {
+    const mockTrash = mock((_params: any) => Promise.resolve({ data: {} }));
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { messages: { trash: mockTrash } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      await trashMessage({} as any, "msg123");
+
+      expect(mockTrash).toHaveBeenCalledWith({ userId: "me", id: "msg123" });
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("searchThreads", () => {
+  it("pages through matching threads and applies the limit", async () => {
+    const pages = [
+      { data: { threads: [{ id: "t1" }, { id: "t2" }], nextPageToken: "next" } },
+      { data: { threads: [{ id: "t3" }] } },
+    ];
+    const mockList = mock((_params: any) => Promise.resolve(pages.shift()));
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { threads: { list: mockList } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      expect(await searchThreads({} as any, "subject:contract", { order: "oldest" })).toEqual([
+        "t3",
+        "t2",
+        "t1",
+      ]);
+      expect(mockList.mock.calls[0][0]).toMatchObject({ userId: "me", q: "subject:contract" });
+      expect(mockList.mock.calls[1][0].pageToken).toBe("next");
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
+});
+
+describe("getThreadMessageIds", () => {
+  it("lists the messages of a thread oldest first", async () => {
+    const mockGet = mock((_params: any) =>
+      Promise.resolve({
+        data: {
+          messages: [
+            { id: "m2", internalDate: "1709337600000" },
+            { id: "m1", internalDate: "1709251200000" },
+            { internalDate: "1709251200000" },
+          ],
+        },
+      })
+    );
+
+    const { google } = await import("googleapis");
+    const originalGmail = google.gmail;
+    google.gmail = (() => ({
+      users: { threads: { get: mockGet } },
+    })) as unknown as typeof google.gmail;
+
+    try {
+      expect(await getThreadMessageIds({} as any, "t1", "alice@example.com")).toEqual(["m1", "m2"]);
+      expect(mockGet.mock.calls[0][0]).toMatchObject({
+        userId: "alice@example.com",
+        id: "t1",
+        format: "minimal",
+      });
+    } finally {
+      google.gmail = originalGmail;
+    }
+  });
 });
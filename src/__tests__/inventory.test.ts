@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { csvField, formatInventory, type InventoryItem } from "../inventory";
+
+const formatSize = (bytes: number) => `${bytes} B`;
+
+function item(path: string, overrides: Partial<AttachmentInfo> = {}): InventoryItem {
+  return {
+    path,
+    attachment: {
+      attachmentId: "att1",
+      filename: "report.pdf",
+      mimeType: "application/pdf",
+      size: 1000,
+      messageId: "msg1",
+      threadId: "thread1",
+      from: "Alice <alice@example.com>",
+      to: "bob@example.com",
+      subject: "Quarterly report",
+      date: new Date(2024, 2, 15, 9, 30).toISOString(),
+      labelIds: ["INBOX", "Label_1"],
+      ...overrides,
+    },
+  };
+}
+
+describe("csvField", () => {
+  it("leaves plain values unquoted", () => {
+    expect(csvField("report.pdf")).toBe("report.pdf");
+    expect(csvField(42)).toBe("42");
+  });
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    expect(csvField("Smith, Jane")).toBe('"Smith, Jane"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField("two\nlines")).toBe('"two\nlines"');
+  });
+
+  it("joins arrays and leaves missing values empty", () => {
+    expect(csvField(["INBOX", "Label_1"])).toBe("INBOX;Label_1");
+    expect(csvField(undefined)).toBe("");
+  });
+});
+
+describe("formatInventory", () => {
+  const items = [
+    item("report.pdf"),
+    item("notes, final.txt", { filename: "notes, final.txt", size: 24, subject: undefined }),
+  ];
+
+  it("formats JSON with totals and message metadata", () => {
+    const inventory = JSON.parse(formatInventory(items, "json", formatSize));
+
+    expect(inventory.count).toBe(2);
+    expect(inventory.totalSize).toBe(1024);
+    expect(inventory.attachments[0]).toMatchObject({
+      path: "report.pdf",
+      filename: "report.pdf",
+      size: 1000,
+      mimeType: "application/pdf",
+      messageId: "msg1",
+      threadId: "thread1",
+      from: "Alice <alice@example.com>",
+      subject: "Quarterly report",
+      labelIds: ["INBOX", "Label_1"],
+    });
+  });
+
+  it("formats CSV with a header row and quoted fields", () => {
+    const lines = formatInventory(items, "csv", formatSize).split("\r\n");
+
+    expect(lines[0]).toBe(
+      "path,filename,size,mimeType,inline,messageId,threadId,date,from,to,subject,labelIds"
+    );
+    expect(lines[1]).toStartWith("report.pdf,report.pdf,1000,application/pdf,false,msg1,thread1,");
+    expect(lines[1]).toEndWith(
+      ",Alice <alice@example.com>,bob@example.com,Quarterly report,INBOX;Label_1"
+    );
+    expect(lines[2]).toStartWith('"notes, final.txt","notes, final.txt",24,');
+    expect(lines[3]).toBe("");
+  });
+
+  it("formats a table with one row per attachment and the total", () => {
+    const lines = formatInventory(items, "table", formatSize).trimEnd().split("\n");
+
+    expect(lines[0]).toStartWith("Date");
+    expect(lines[1]).toStartWith("2024-03-15 09:30");
+    expect(lines[1]).toContain("Quarterly report");
+    expect(lines[1]).toEndWith("1000 B  report.pdf");
+    expect(lines[lines.length - 1]).toBe("2 attachment(s), 1024 B total");
+  });
+
+  it("shortens long table cells", () => {
+    const long = item("a.pdf", { subject: "x".repeat(80) });
+    const row = formatInventory([long], "table", formatSize).split("\n")[1];
+
+    expect(row).toContain(`${"x".repeat(35)}…`);
+    expect(row).not.toContain("x".repeat(36));
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import {
+  sanitizePathSegment,
+  parseAddress,
+  senderAddress,
+  formatDate,
+  parseLayout,
+  layoutUses,
+  renderLayout,
+  GROUP_BY_LAYOUTS,
+} from "../layout";
+
+const attachment: AttachmentInfo = {
+  attachmentId: "att1",
+  filename: "invoice.pdf",
+  mimeType: "application/pdf",
+  size: 1024,
+  messageId: "msg123",
+  threadId: "thread9",
+  from: '"Billing Team" <Billing@Vendor.io>',
+  to: "Jane Doe <jane@example.com>, bob@example.com",
+  subject: "Invoice: March 2024",
+  date: new Date(2024, 2, 15, 9, 30, 5).toISOString(),
+  labelIds: ["INBOX", "Label_7"],
+};
+
+describe("sanitizePathSegment", () => {
+  it("keeps ordinary filenames unchanged", () => {
+    expect(sanitizePathSegment("invoice 2024.pdf")).toBe("invoice 2024.pdf");
+  });
+
+  it("replaces path separators", () => {
+    expect(sanitizePathSegment("../../etc/passwd")).toBe(".._.._etc_passwd");
+    expect(sanitizePathSegment("a\\b")).toBe("a_b");
+  });
+
+  it("replaces characters rejected by Windows filesystems", () => {
+    expect(sanitizePathSegment('a:b*c?d"e<f>g|h')).toBe("a_b_c_d_e_f_g_h");
+  });
+
+  it("never returns an empty or relative segment", () => {
+    expect(sanitizePathSegment("")).toBe("_");
+    expect(sanitizePathSegment("   ")).toBe("_");
+    expect(sanitizePathSegment(".")).toBe("_");
+    expect(sanitizePathSegment("..")).toBe("_");
+  });
+});
+
+describe("parseAddress", () => {
+  it("splits display name and address", () => {
+    expect(parseAddress('"Doe, Jane" <Jane@Example.com>')).toEqual({
+      address: "jane@example.com",
+      name: "Doe, Jane",
+    });
+  });
+
+  it("uses the first address of a list", () => {
+    expect(parseAddress("a@x.com, b@y.com")?.address).toBe("a@x.com");
+  });
+
+  it("uses the address as name when there is no display name", () => {
+    expect(parseAddress("billing@vendor.io")).toEqual({
+      address: "billing@vendor.io",
+      name: "billing@vendor.io",
+    });
+  });
+
+  it("returns undefined for missing headers", () => {
+    expect(parseAddress(undefined)).toBeUndefined();
+    expect(parseAddress("")).toBeUndefined();
+  });
+});
+
+describe("senderAddress", () => {
+  it("extracts the address from a display name header", () => {
+    expect(senderAddress("Jane Doe <Jane@Example.com>")).toBe("jane@example.com");
+  });
+
+  it("falls back when the header is missing", () => {
+    expect(senderAddress(undefined)).toBe("unknown-sender");
+  });
+});
+
+describe("formatDate", () => {
+  it("replaces all supported tokens", () => {
+    const date = new Date(2024, 0, 5, 7, 8, 9);
+    expect(formatDate(date, "YYYY-MM-DD HH:mm:ss")).toBe("2024-01-05 07:08:09");
+  });
+
+  it("keeps other characters", () => {
+    expect(formatDate(new Date(2024, 11, 1), "Q YYYY/MM")).toBe("Q 2024/12");
+  });
+});
+
+describe("parseLayout", () => {
+  it("parses segments with text and placeholders", () => {
+    const layout = parseLayout("mail/{from.domain}-{date:YYYY}/{filename}");
+
+    expect(layout.segments).toEqual([
+      [{ type: "text", value: "mail" }],
+      [
+        { type: "placeholder", name: "from.domain", format: undefined },
+        { type: "text", value: "-" },
+        { type: "placeholder", name: "date", format: "YYYY" },
+      ],
+      [{ type: "placeholder", name: "filename", format: undefined }],
+    ]);
+  });
+
+  it("ignores empty segments", () => {
+    expect(parseLayout("/a//{filename}/").segments).toHaveLength(2);
+  });
+
+  it("rejects unknown placeholders", () => {
+    expect(() => parseLayout("{sender}/{filename}")).toThrow(
+      'Unknown layout placeholder "{sender}"'
+    );
+  });
+
+  it("rejects formats on placeholders other than date", () => {
+    expect(() => parseLayout("{subject:upper}")).toThrow(
+      'Layout placeholder "{subject}" does not accept a format'
+    );
+  });
+
+  it("rejects unbalanced braces", () => {
+    expect(() => parseLayout("{filename")).toThrow("Unbalanced braces");
+  });
+
+  it("rejects empty layouts", () => {
+    expect(() => parseLayout("/")).toThrow("Layout must not be empty");
+  });
+});
+
+describe("layoutUses", () => {
+  it("detects placeholders in any segment", () => {
+    const layout = parseLayout("{label}/{filename}");
+    expect(layoutUses(layout, "label")).toBe(true);
+    expect(layoutUses(layout, "subject")).toBe(false);
+  });
+});
+
+describe("renderLayout", () => {
+  it("renders the documented example", () => {
+    const layout = parseLayout("{from.domain}/{date:YYYY-MM}/{subject}/{filename}");
+
+    expect(renderLayout(layout, attachment)).toBe(
+      "vendor.io/2024-03/Invoice_ March 2024/invoice.pdf"
+    );
+  });
+
+  it("renders sender and recipient details", () => {
+    const layout = parseLayout("{from.name}/{to}/{to.name}/{to.domain}");
+
+    expect(renderLayout(layout, attachment)).toBe(
+      "Billing Team/jane@example.com/Jane Doe/example.com"
+    );
+  });
+
+  it("renders filename parts and IDs", () => {
+    const layout = parseLayout("{threadId}/{messageId}/{name}.{ext}");
+
+    expect(renderLayout(layout, attachment)).toBe("thread9/msg123/invoice.pdf");
+  });
+
+  it("uses the default date format", () => {
+    expect(renderLayout(parseLayout("{date}"), attachment)).toBe("2024-03-15");
+  });
+
+  it("renders label names when provided", () => {
+    const layout = parseLayout("{label}/{filename}");
+    const labelNames = new Map([["Label_7", "Finance/Invoices"]]);
+
+    expect(renderLayout(layout, attachment, labelNames)).toBe(
+      "Finance_Invoices/invoice.pdf"
+    );
+    expect(renderLayout(layout, attachment)).toBe("Label_7/invoice.pdf");
+  });
+
+  it("uses fallbacks for missing metadata", () => {
+    const layout = parseLayout("{from}/{subject}/{date}/{label}/{filename}");
+    const bare: AttachmentInfo = {
+      attachmentId: "att1",
+      filename: "README",
+      mimeType: "text/plain",
+      size: 1,
+      messageId: "msg1",
+    };
+
+    expect(renderLayout(layout, bare)).toBe(
+      "unknown-sender/no-subject/unknown-date/unlabeled/README"
+    );
+  });
+
+  it("prevents placeholder values from adding folders", () => {
+    const layout = parseLayout("{subject}/{filename}");
+    const sneaky = { ...attachment, subject: "../..", filename: "a/../../b.pdf" };
+
+    expect(renderLayout(layout, sneaky)).toBe(".._../a_.._.._b.pdf");
+  });
+
+  it("truncates very long values", () => {
+    const layout = parseLayout("{subject}");
+    const result = renderLayout(layout, { ...attachment, subject: "x".repeat(300) });
+
+    expect(result).toHaveLength(100);
+  });
+
+  it("matches the --group-by shortcuts", () => {
+    expect(renderLayout(parseLayout(GROUP_BY_LAYOUTS.message), attachment)).toBe(
+      "msg123/invoice.pdf"
+    );
+    expect(renderLayout(parseLayout(GROUP_BY_LAYOUTS.sender), attachment)).toBe(
+      "billing@vendor.io/invoice.pdf"
+    );
+    expect(renderLayout(parseLayout(GROUP_BY_LAYOUTS.thread), attachment)).toBe(
+      "thread9/invoice.pdf"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { hashContent, type HashedFile, type Placement } from "../duplicates";
+import { buildManifest, manifestCsv, manifestJson } from "../manifest";
+
+function hashed(filename: string, content: string, overrides: Partial<AttachmentInfo> = {}): HashedFile {
+  return {
+    filename,
+    sourcePath: "/spool/1.part",
+    sha256: hashContent(Buffer.from(content)),
+    size: content.length,
+    attachment: {
+      attachmentId: "att1",
+      filename,
+      mimeType: "application/pdf",
+      size: 1000,
+      messageId: "msg1",
+      threadId: "thread1",
+      from: "Billing <billing@vendor.com>",
+      subject: "Invoice 42",
+      date: "2024-03-15T09:30:00.000Z",
+      ...overrides,
+    },
+  };
+}
+
+describe("buildManifest", () => {
+  const now = new Date("2024-04-01T12:00:00Z");
+
+  it("records one entry per attachment with its email metadata", () => {
+    const file = hashed("invoice.pdf", "content");
+    const placements: Placement[] = [{ file, path: "vendor.com/invoice.pdf" }];
+
+    const manifest = buildManifest(placements, [], "subject:invoice", now);
+
+    expect(manifest.version).toBe(1);
+    expect(manifest.createdAt).toBe("2024-04-01T12:00:00.000Z");
+    expect(manifest.query).toBe("subject:invoice");
+    expect(manifest.attachments).toEqual([
+      {
+        path: "vendor.com/invoice.pdf",
+        linkTo: undefined,
+        filename: "invoice.pdf",
+        messageId: "msg1",
+        threadId: "thread1",
+        from: "Billing <billing@vendor.com>",
+        subject: "Invoice 42",
+        date: "2024-03-15T09:30:00.000Z",
+        mimeType: "application/pdf",
+        size: 7,
+        sha256: hashContent(Buffer.from("content")),
+      },
+    ]);
+    expect(manifest.duplicates).toEqual([]);
+  });
+
+  it("keeps link targets", () => {
+    const file = hashed("copy.pdf", "content", { messageId: "msg2" });
+
+    const manifest = buildManifest(
+      [{ file, path: "msg2/copy.pdf", linkTo: "msg1/copy.pdf" }],
+      [],
+      "q",
+      now
+    );
+
+    expect(manifest.attachments[0].linkTo).toBe("msg1/copy.pdf");
+  });
+
+  it("records the attached messages a file was found in", () => {
+    const file = hashed("invoice.pdf", "content", {
+      nesting: ["Fwd: Invoice.eml", "Invoice.eml"],
+    });
+
+    const manifest = buildManifest(
+      [{ file, path: "Fwd_ Invoice/Invoice/invoice.pdf" }],
+      [],
+      "q",
+      now
+    );
+
+    expect(manifest.attachments[0].nesting).toEqual(["Fwd: Invoice.eml", "Invoice.eml"]);
+    expect(manifestCsv(manifest).split("\r\n")[1]).toStartWith(
+      "Fwd_ Invoice/Invoice/invoice.pdf,,invoice.pdf,Fwd: Invoice.eml;Invoice.eml,,msg1,"
+    );
+  });
+});
+
+describe("manifest serialization", () => {
+  const manifest = buildManifest(
+    [
+      { file: hashed("invoice.pdf", "a"), path: "invoice.pdf" },
+      {
+        file: hashed("notes.pdf", "b", { subject: "Re: notes, draft" }),
+        path: "notes.pdf",
+      },
+    ],
+    [],
+    "q",
+    new Date("2024-04-01T12:00:00Z")
+  );
+
+  it("writes JSON that parses back to the manifest", () => {
+    expect(JSON.parse(manifestJson(manifest))).toEqual(
+      JSON.parse(JSON.stringify(manifest))
+    );
+  });
+
+  it("writes CSV with one row per attachment", () => {
+    const lines = manifestCsv(manifest).split("\r\n");
+
+    expect(lines[0]).toBe(
+      "path,linkTo,filename,nesting,account,messageId,threadId,from,subject,date,mimeType,size,sha256"
+    );
+    expect(lines[1]).toBe(
+      `invoice.pdf,,invoice.pdf,,,msg1,thread1,Billing <billing@vendor.com>,Invoice 42,` +
+        `2024-03-15T09:30:00.000Z,application/pdf,1,${hashContent(Buffer.from("a"))}`
+    );
+    expect(lines[2]).toContain(',"Re: notes, draft",');
+    expect(lines).toHaveLength(4);
+  });
+});
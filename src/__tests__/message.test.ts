@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { htmlToText, messageEntry, renderMessage, withMessages } from "../message";
+
+function attachment(messageId: string, filename: string): AttachmentInfo {
+  return {
+    attachmentId: `att-${filename}`,
+    filename,
+    mimeType: "application/pdf",
+    size: 100,
+    messageId,
+    threadId: "thread1",
+    from: "Billing <billing@vendor.com>",
+    subject: "Invoice 42",
+    date: "2024-03-15T09:30:00.000Z",
+    messageSize: 5000,
+  };
+}
+
+function eml(lines: string[]): Buffer {
+  return Buffer.from(lines.join("\r\n"));
+}
+
+const alternative = eml([
+  "From: Billing <billing@vendor.com>",
+  "To: ap@customer.com",
+  "Subject: =?UTF-8?Q?Invoice_M=C3=A4rz?=",
+  "Date: Fri, 15 Mar 2024 09:30:00 +0000",
+  "Content-Type: multipart/mixed; boundary=mixed",
+  "",
+  "--mixed",
+  "Content-Type: multipart/alternative; boundary=alt",
+  "",
+  "--alt",
+  "Content-Type: text/plain; charset=iso-8859-1",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Rechnung f=FCr M=E4rz",
+  "--alt",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  "<p>Rechnung <b>für</b> März</p>",
+  "--alt--",
+  "--mixed",
+  'Content-Type: text/plain; name="notes.txt"',
+  "Content-Disposition: attachment",
+  "",
+  "not the body",
+  "--mixed--",
+]);
+
+describe("messageEntry", () => {
+  it("names the entry after the subject and keeps the message metadata", () => {
+    expect(messageEntry(attachment("msg1", "a.pdf"), "eml")).toEqual({
+      attachmentId: "",
+      filename: "Invoice 42.eml",
+      mimeType: "message/rfc822",
+      size: 5000,
+      messageId: "msg1",
+      partId: "message.eml",
+      threadId: "thread1",
+      from: "Billing <billing@vendor.com>",
+      to: undefined,
+      subject: "Invoice 42",
+      date: "2024-03-15T09:30:00.000Z",
+      labelIds: undefined,
+      messageFormat: "eml",
+    });
+  });
+
+  it("falls back to a fixed name without a subject", () => {
+    const entry = messageEntry({ ...attachment("msg1", "a.pdf"), subject: "  " }, "html");
+
+    expect(entry.filename).toBe("message.html");
+    expect(entry.mimeType).toBe("text/html");
+  });
+});
+
+describe("withMessages", () => {
+  it("adds one entry per message before its first attachment", () => {
+    const result = withMessages(
+      [attachment("msg1", "a.pdf"), attachment("msg1", "b.pdf"), attachment("msg2", "c.pdf")],
+      "txt"
+    );
+
+    expect(result.map((att) => `${att.messageId}/${att.filename}`)).toEqual([
+      "msg1/Invoice 42.txt",
+      "msg1/a.pdf",
+      "msg1/b.pdf",
+      "msg2/Invoice 42.txt",
+      "msg2/c.pdf",
+    ]);
+  });
+});
+
+describe("renderMessage", () => {
+  it("returns the original message for eml", () => {
+    expect(renderMessage(alternative, "eml")).toBe(alternative);
+  });
+
+  it("writes headers and the plain text body for txt", () => {
+    const text = renderMessage(alternative, "txt").toString("utf8");
+
+    expect(text).toBe(
+      "From: Billing <billing@vendor.com>\n" +
+        "To: ap@customer.com\n" +
+        "Date: Fri, 15 Mar 2024 09:30:00 +0000\n" +
+        "Subject: Invoice März\n" +
+        "\n" +
+        "Rechnung für März\n"
+    );
+  });
+
+  it("writes headers and the HTML body for html", () => {
+    const html = renderMessage(alternative, "html").toString("utf8");
+
+    expect(html).toContain('<meta charset="utf-8">');
+    expect(html).toContain("<title>Invoice März</title>");
+    expect(html).toContain("<th align=\"left\">From</th><td>Billing &lt;billing@vendor.com&gt;</td>");
+    expect(html).toContain("<p>Rechnung <b>für</b> März</p>");
+    expect(html).not.toContain("not the body");
+  });
+
+  it("falls back to the other body type", () => {
+    const htmlOnly = eml(["Subject: Hi", "Content-Type: text/html", "", "<p>Hello &amp; bye</p>"]);
+    const textOnly = eml(["Subject: Hi", "", "1 < 2"]);
+
+    expect(renderMessage(htmlOnly, "txt").toString()).toBe("Subject: Hi\n\nHello & bye\n");
+    expect(renderMessage(textOnly, "html").toString()).toContain("<pre>1 &lt; 2</pre>");
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps line breaks and drops styles and tags", () => {
+    expect(
+      htmlToText("<style>p{}</style><p>One<br>Two</p><div>Three&nbsp;&#8364;</div>")
+    ).toBe("One\nTwo\nThree €");
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "bun:test";
+import {
+  decodeHeaderText,
+  inlineFilename,
+  messageAttachments,
+  parseHeaderValue,
+  parseMessage,
+} from "../mime";
+
+function eml(lines: string[]): Buffer {
+  return Buffer.from(lines.join("\r\n"));
+}
+
+const forwarded = eml([
+  "From: Billing <billing@vendor.com>",
+  "Subject: Invoice 42",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="outer"',
+  "",
+  "This is a multi-part message in MIME format.",
+  "--outer",
+  'Content-Type: multipart/alternative; boundary="inner"',
+  "",
+  "--inner",
+  "Content-Type: text/plain; charset=utf-8",
+  "",
+  "Please find the invoice attached.",
+  "--inner",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  '<p>Please find the invoice attached.<img src="cid:logo@vendor"></p>',
+  "--inner--",
+  "--outer",
+  "Content-Type: image/png",
+  "Content-ID: <logo@vendor>",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("png bytes").toString("base64"),
+  "--outer",
+  'Content-Type: application/pdf; name="invoice-42.pdf"',
+  'Content-Disposition: attachment; filename="invoice-42.pdf"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("%PDF-1.4 invoice").toString("base64").slice(0, 12),
+  Buffer.from("%PDF-1.4 invoice").toString("base64").slice(12),
+  "--outer--",
+  "",
+]);
+
+describe("parseHeaderValue", () => {
+  it("splits the value from quoted parameters", () => {
+    expect(parseHeaderValue('Attachment; filename="a; b.pdf"; size=10')).toEqual({
+      value: "attachment",
+      params: { filename: "a; b.pdf", size: "10" },
+    });
+  });
+
+  it("joins and decodes RFC 2231 parameters", () => {
+    const { params } = parseHeaderValue(
+      "attachment; filename*0*=UTF-8''Rechnung%20M%C3%A4rz; filename*1=\".pdf\""
+    );
+
+    expect(params.filename).toBe("Rechnung März.pdf");
+  });
+});
+
+describe("decodeHeaderText", () => {
+  it("decodes base64 and quoted-printable encoded words", () => {
+    expect(decodeHeaderText("=?UTF-8?B?UmVjaG51bmc=?= 42")).toBe("Rechnung 42");
+    expect(decodeHeaderText("=?iso-8859-1?Q?M=E4rz_2024?=")).toBe("März 2024");
+  });
+
+  it("drops the whitespace between adjacent encoded words", () => {
+    expect(decodeHeaderText("=?UTF-8?Q?Fwd:_?= =?UTF-8?Q?Invoice?=")).toBe("Fwd: Invoice");
+  });
+
+  it("leaves plain text alone", () => {
+    expect(decodeHeaderText("Invoice 42")).toBe("Invoice 42");
+  });
+});
+
+describe("parseMessage", () => {
+  it("reads headers case-insensitively and unfolds them", () => {
+    const message = parseMessage(
+      eml(["SUBJECT: A long", "  subject", "Content-Type: text/plain", "", "Body"])
+    );
+
+    expect(message.headers.subject).toBe("A long subject");
+    expect(message.mimeType).toBe("text/plain");
+    expect(message.body.toString()).toBe("Body");
+  });
+
+  it("splits multipart bodies and skips the preamble", () => {
+    const message = parseMessage(forwarded);
+
+    expect(message.mimeType).toBe("multipart/mixed");
+    expect(message.parts.map((part) => part.mimeType)).toEqual([
+      "multipart/alternative",
+      "image/png",
+      "application/pdf",
+    ]);
+    expect(message.parts[0].parts).toHaveLength(2);
+  });
+
+  it("decodes quoted-printable bodies", () => {
+    const message = parseMessage(
+      eml(["Content-Transfer-Encoding: quoted-printable", "", "M=C3=A4rz =", "2024"])
+    );
+
+    expect(message.body.toString("utf8")).toBe("März 2024");
+  });
+
+  it("keeps the last part of a message without a closing boundary", () => {
+    const message = parseMessage(
+      eml([
+        "Content-Type: multipart/mixed; boundary=b",
+        "",
+        "--b",
+        'Content-Disposition: attachment; filename="cut.txt"',
+        "",
+        "partial",
+      ])
+    );
+
+    expect(message.parts).toHaveLength(1);
+    expect(message.parts[0].body.toString()).toBe("partial");
+  });
+});
+
+describe("messageAttachments", () => {
+  it("lists attachments and inline parts but not the body text", () => {
+    const attachments = messageAttachments(forwarded);
+
+    expect(attachments.map((a) => [a.partId, a.filename, a.inline])).toEqual([
+      ["2", "logo.png", true],
+      ["3", "invoice-42.pdf", false],
+    ]);
+    expect(attachments[1].data.toString()).toBe("%PDF-1.4 invoice");
+    expect(attachments[0].contentId).toBe("logo@vendor");
+  });
+
+  it("returns attached messages as .eml files named after their subject", () => {
+    const outer = eml([
+      "Subject: Fwd: Invoice 42",
+      "Content-Type: multipart/mixed; boundary=fwd",
+      "",
+      "--fwd",
+      "Content-Type: text/plain",
+      "",
+      "See below.",
+      "--fwd",
+      "Content-Type: message/rfc822",
+      "",
+      forwarded.toString("latin1"),
+      "--fwd--",
+    ]);
+
+    const [attachment, ...rest] = messageAttachments(outer);
+
+    expect(rest).toEqual([]);
+    expect(attachment.filename).toBe("Invoice 42.eml");
+    expect(attachment.mimeType).toBe("message/rfc822");
+    expect(messageAttachments(attachment.data).map((a) => a.filename)).toEqual([
+      "logo.png",
+      "invoice-42.pdf",
+    ]);
+  });
+
+  it("returns nothing for a plain text message", () => {
+    expect(messageAttachments(eml(["Subject: Hi", "", "Hello"]))).toEqual([]);
+  });
+});
+
+describe("inlineFilename", () => {
+  it("uses the Content-ID when it carries a filename", () => {
+    expect(inlineFilename("image001.png@01D9A1B2", "2", "image/png")).toBe("image001.png");
+  });
+
+  it("falls back to the part ID and the MIME type", () => {
+    expect(inlineFilename(undefined, "1.2", "image/jpeg")).toBe("inline-1.2.jpg");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { contentsFolder, expandAttachedMessage, isAttachedMessage } from "../nested";
+
+function eml(lines: string[]): Buffer {
+  return Buffer.from(lines.join("\r\n"));
+}
+
+const invoice = eml([
+  "Subject: Invoice 42",
+  "Content-Type: multipart/mixed; boundary=inv",
+  "",
+  "--inv",
+  "Content-Type: text/plain",
+  "",
+  "Invoice attached.",
+  "--inv",
+  'Content-Type: application/pdf; name="invoice:42.pdf"',
+  "Content-Disposition: attachment",
+  "",
+  "%PDF invoice",
+  "--inv--",
+]);
+
+const forwarded = eml([
+  "Subject: Fwd: Invoice 42",
+  "Content-Type: multipart/mixed; boundary=fwd",
+  "",
+  "--fwd",
+  'Content-Type: text/csv; name="summary.csv"',
+  "",
+  "a,b",
+  "--fwd",
+  "Content-Type: message/rfc822",
+  'Content-Disposition: attachment; filename="Invoice 42.eml"',
+  "",
+  invoice.toString("latin1"),
+  "--fwd--",
+]);
+
+const container: AttachmentInfo = {
+  attachmentId: "att1",
+  filename: "Fwd: Invoice 42.eml",
+  mimeType: "message/rfc822",
+  size: forwarded.length,
+  messageId: "msg1",
+  partId: "2",
+  from: "Accounts <ap@customer.com>",
+  subject: "Fwd: Invoice 42",
+  date: "2024-03-15T09:30:00.000Z",
+};
+
+describe("isAttachedMessage", () => {
+  it("detects attached messages by MIME type or extension", () => {
+    expect(isAttachedMessage({ mimeType: "message/rfc822", filename: "x" })).toBe(true);
+    expect(isAttachedMessage({ mimeType: "application/octet-stream", filename: "Fwd.EML" })).toBe(
+      true
+    );
+    expect(isAttachedMessage({ mimeType: "application/pdf", filename: "a.pdf" })).toBe(false);
+  });
+});
+
+describe("contentsFolder", () => {
+  it("drops the .eml extension", () => {
+    expect(contentsFolder("vendor.com/Fwd_ Invoice.eml")).toBe("vendor.com/Fwd_ Invoice");
+  });
+
+  it("adds a suffix when there is no .eml extension", () => {
+    expect(contentsFolder("msg1/forwarded")).toBe("msg1/forwarded_contents");
+  });
+});
+
+describe("expandAttachedMessage", () => {
+  it("extracts attachments of nested messages with their nesting chain", () => {
+    const results = expandAttachedMessage(container, forwarded);
+
+    expect(results.map((r) => r.path)).toEqual([
+      "summary.csv",
+      "Invoice 42.eml",
+      "Invoice 42/invoice_42.pdf",
+    ]);
+    expect(results.map((r) => r.attachment.nesting)).toEqual([
+      ["Fwd: Invoice 42.eml"],
+      ["Fwd: Invoice 42.eml"],
+      ["Fwd: Invoice 42.eml", "Invoice 42.eml"],
+    ]);
+    expect(results[2].data.toString()).toBe("%PDF invoice");
+  });
+
+  it("keeps the metadata of the email in the mailbox", () => {
+    const [summary, , pdf] = expandAttachedMessage(container, forwarded);
+
+    expect(pdf.attachment).toMatchObject({
+      filename: "invoice:42.pdf",
+      mimeType: "application/pdf",
+      size: "%PDF invoice".length,
+      messageId: "msg1",
+      from: "Accounts <ap@customer.com>",
+      subject: "Fwd: Invoice 42",
+      date: "2024-03-15T09:30:00.000Z",
+    });
+    expect(summary.attachment.partId).toBe("2/1");
+    expect(pdf.attachment.partId).toBe("2/2/2");
+  });
+
+  it("returns nothing for a message without attachments", () => {
+    expect(expandAttachedMessage(container, eml(["Subject: Hi", "", "Hello"]))).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import { mapWithConcurrency } from "../pool";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("returns results in input order when calls finish out of order", async () => {
+    const result = await mapWithConcurrency([30, 10, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(result).toEqual(["0:30", "1:10", "2:20", "3:0"]);
+  });
+
+  it("never runs more than the given number of calls at once", async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active--;
+    });
+
+    expect(maxActive).toBe(3);
+  });
+
+  it("runs calls one at a time with concurrency 1", async () => {
+    const order: string[] = [];
+
+    await mapWithConcurrency(["a", "b", "c"], 1, async (item) => {
+      order.push(`start ${item}`);
+      await delay(1);
+      order.push(`end ${item}`);
+    });
+
+    expect(order).toEqual(["start a", "end a", "start b", "end b", "start c", "end c"]);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it("rejects with the first error and stops starting new calls", async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (item) => {
+        started.push(item);
+        await delay(item === 1 ? 1 : 20);
+        if (item === 1) throw new Error("boom");
+        return item;
+      })
+    ).rejects.toThrow("boom");
+
+    expect(started).toEqual([0, 1]);
+  });
+
+  it("waits for calls in flight before rejecting", async () => {
+    let finished = 0;
+
+    await expect(
+      mapWithConcurrency([0, 1], 2, async (item) => {
+        if (item === 0) throw new Error("fast failure");
+        await delay(10);
+        finished++;
+      })
+    ).rejects.toThrow("fast failure");
+
+    expect(finished).toBe(1);
+  });
+});
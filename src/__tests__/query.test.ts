@@ -0,0 +1,157 @@
+import { describe, it, expect } from "bun:test";
+import { compileFlags, formatQuery, parseQuery, requireAttachments } from "../query";
+
+describe("parseQuery", () => {
+  it("returns null for an empty query", () => {
+    expect(parseQuery("  ")).toBeNull();
+  });
+
+  it("parses operators, quoted text and negation", () => {
+    expect(parseQuery('from:a@b.com "q3 report" -in:trash')).toEqual({
+      type: "and",
+      nodes: [
+        {
+          type: "operator",
+          name: "from",
+          value: { type: "text", value: "a@b.com", quoted: false },
+        },
+        { type: "text", value: "q3 report", quoted: true },
+        {
+          type: "not",
+          node: {
+            type: "operator",
+            name: "in",
+            value: { type: "text", value: "trash", quoted: false },
+          },
+        },
+      ],
+    });
+  });
+
+  it("binds OR tighter than terms side by side", () => {
+    const node = parseQuery("a b OR c");
+
+    expect(node?.type).toBe("and");
+    expect(node?.type === "and" && node.nodes[1].type).toBe("or");
+  });
+
+  it("round-trips through formatQuery", () => {
+    for (const query of [
+      'subject:"q3 report" newer_than:30d',
+      "larger:10M subject:(q3 report) a OR b",
+      "{from:a from:b} -in:trash",
+      "has:{attachment drive}",
+    ]) {
+      expect(formatQuery(parseQuery(query)!)).toBe(query);
+    }
+  });
+
+  it("explains syntax errors", () => {
+    expect(() => parseQuery('"unclosed')).toThrow("Missing closing quote");
+    expect(() => parseQuery("(a")).toThrow('Missing ")"');
+    expect(() => parseQuery("a)")).toThrow('Unexpected ")" without a matching "("');
+    expect(() => parseQuery("a OR")).toThrow('"OR" needs a term on both sides');
+    expect(() => parseQuery("from:")).toThrow('"from:" needs a value');
+  });
+
+  it("searches unknown operators as text, with a warning", () => {
+    const warnings: string[] = [];
+    expect(formatQuery(parseQuery("re: budget https://example.com re:x", warnings)!)).toBe(
+      "re: budget https://example.com re:x"
+    );
+    expect(warnings).toEqual([
+      '"re:" is not a search operator, so it is searched as text',
+      '"https:" is not a search operator, so it is searched as text',
+    ]);
+    expect(parseQuery('"re:hello"')).toEqual({ type: "text", value: "re:hello", quoted: true });
+  });
+
+  it("suggests operators for typos", () => {
+    const warnings: string[] = [];
+    expect(parseQuery("form:bob", warnings)).toEqual({
+      type: "text",
+      value: "form:bob",
+      quoted: false,
+    });
+    expect(warnings).toEqual([
+      '"form:" is not a search operator (did you mean "from:"?), so it is searched as text',
+    ]);
+  });
+
+  it("checks operator values", () => {
+    expect(() => parseQuery("has:attachments")).toThrow(
+      'Invalid value "attachments" for has: (did you mean "attachment"?)'
+    );
+    expect(() => parseQuery("after:2024/13/01")).toThrow('Invalid date "2024/13/01" for after:');
+    expect(() => parseQuery("newer_than:2w")).toThrow('Invalid period "2w"');
+    expect(() => parseQuery("larger:big")).toThrow('Invalid size "big"');
+    expect(parseQuery("after:2024/02/29 before:1711843200 larger:1.5MB")).not.toBeNull();
+  });
+});
+
+describe("requireAttachments", () => {
+  it("keeps a query that already needs attachments", () => {
+    expect(requireAttachments("from:a@b.com has:attachment")).toEqual({
+      query: "from:a@b.com has:attachment",
+      added: false,
+      warnings: [],
+    });
+  });
+
+  it("adds has:attachment when only quoted text or an OR mentions it", () => {
+    expect(requireAttachments('"has:attachment" report')).toEqual({
+      query: '"has:attachment" report has:attachment',
+      added: true,
+      warnings: [],
+    });
+    expect(requireAttachments("has:attachment OR from:a").query).toBe(
+      "has:attachment OR from:a has:attachment"
+    );
+  });
+
+  it("rejects queries that exclude attachments", () => {
+    expect(() => requireAttachments("from:a -has:attachment")).toThrow(
+      "-has:attachment leaves no attachments to download"
+    );
+  });
+
+  it("rejects empty and invalid queries", () => {
+    expect(() => requireAttachments("")).toThrow("The query is empty");
+    expect(() => requireAttachments("has:attachments")).toThrow("Invalid value");
+  });
+});
+
+describe("compileFlags", () => {
+  it("turns search options into operators", () => {
+    expect(
+      compileFlags({
+        from: "billing@vendor.com",
+        subject: "q3 report",
+        label: "Client Work",
+        since: "30D",
+        before: "2024-03-31",
+      })
+    ).toEqual([
+      "from:billing@vendor.com",
+      'subject:"q3 report"',
+      'label:"Client Work"',
+      "newer_than:30d",
+      "before:2024/03/31",
+    ]);
+    expect(compileFlags({ since: "2024/01/01", before: "1y" })).toEqual([
+      "after:2024/01/01",
+      "older_than:1y",
+    ]);
+  });
+
+  it("returns no terms without options", () => {
+    expect(compileFlags({})).toEqual([]);
+  });
+
+  it("rejects invalid periods and dates", () => {
+    expect(() => compileFlags({ since: "yesterday" })).toThrow(
+      'Invalid --since "yesterday": use a period such as 30d'
+    );
+    expect(() => compileFlags({ before: "2024-02-30" })).toThrow('Invalid --before "2024-02-30"');
+  });
+});
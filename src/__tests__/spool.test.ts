@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { exists, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { openSpool } from "../spool";
+
+describe("openSpool", () => {
+  let parentDir: string;
+
+  beforeEach(async () => {
+    parentDir = await mkdtemp(join(tmpdir(), "gmail-attachments-spool-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(parentDir, { recursive: true, force: true });
+  });
+
+  it("creates the directory and missing parents", async () => {
+    const spool = await openSpool(join(parentDir, "a", "b", ".spool"));
+
+    expect(spool.dir).toBe(join(parentDir, "a", "b", ".spool"));
+    expect(await exists(spool.dir)).toBe(true);
+  });
+
+  it("writes each buffer to its own file", async () => {
+    const spool = await openSpool(join(parentDir, ".spool"));
+
+    const first = await spool.write(Buffer.from("one"));
+    const second = await spool.write(Buffer.from("two"));
+
+    expect(first).not.toBe(second);
+    expect(await readFile(first, "utf8")).toBe("one");
+    expect(await readFile(second, "utf8")).toBe("two");
+  });
+
+  it("keeps files from an earlier run and numbers new files after them", async () => {
+    const dir = join(parentDir, ".spool");
+    const earlier = await openSpool(dir);
+    const kept = await earlier.write(Buffer.from("kept"));
+    await earlier.write(Buffer.from("also kept"));
+
+    const spool = await openSpool(dir);
+    const added = await spool.write(Buffer.from("new"));
+
+    expect(await readFile(kept, "utf8")).toBe("kept");
+    expect(basename(added)).toBe("3.part");
+  });
+
+  it("removes all spooled files on cleanup", async () => {
+    const spool = await openSpool(join(parentDir, ".spool"));
+    await spool.write(Buffer.from("data"));
+
+    await spool.cleanup();
+
+    expect(await exists(spool.dir)).toBe(false);
+    expect(await readdir(parentDir)).toEqual([]);
+  });
+
+  it("reports a descriptive error when the directory cannot be created", async () => {
+    const blocked = join(parentDir, "blocked");
+    await writeFile(blocked, "not a folder");
+
+    await expect(openSpool(join(blocked, "child"))).rejects.toThrow(
+      "Failed to write temporary files"
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AttachmentInfo } from "../gmail";
+import {
+  attachmentKey,
+  loadState,
+  isDownloaded,
+  recordDownload,
+  saveState,
+  incrementalOutputPath,
+} from "../state";
+
+const attachment: AttachmentInfo = {
+  attachmentId: "ANGjdJ-ephemeral",
+  filename: "invoice.pdf",
+  mimeType: "application/pdf",
+  size: 1024,
+  messageId: "msg123",
+  partId: "1",
+};
+
+describe("attachmentKey", () => {
+  it("combines message ID and part ID", () => {
+    expect(attachmentKey(attachment)).toBe("msg123/1");
+  });
+
+  it("ignores the attachment ID when a part ID is known", () => {
+    const refetched = { ...attachment, attachmentId: "ANGjdJ-different" };
+    expect(attachmentKey(refetched)).toBe(attachmentKey(attachment));
+  });
+
+  it("falls back to the attachment ID without a part ID", () => {
+    const { partId, ...withoutPart } = attachment;
+    expect(attachmentKey(withoutPart)).toBe("msg123/ANGjdJ-ephemeral");
+  });
+
+  it("prefixes the account of named accounts", () => {
+    expect(attachmentKey({ ...attachment, account: "finance" })).toBe("finance:msg123/1");
+  });
+});
+
+describe("loadState and saveState", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-state-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns an empty state when the file does not exist", async () => {
+    const state = await loadState(join(dir, "missing.json"));
+
+    expect(state).toEqual({ version: 1, downloads: {} });
+  });
+
+  it("round-trips recorded downloads", async () => {
+    const statePath = join(dir, "state.json");
+    const state = await loadState(statePath);
+    recordDownload(state, attachment, new Date("2024-03-15T09:30:00Z"));
+
+    await saveState(state, statePath);
+
+    const reloaded = await loadState(statePath);
+    expect(reloaded.downloads).toEqual({
+      "msg123/1": {
+        filename: "invoice.pdf",
+        downloadedAt: "2024-03-15T09:30:00.000Z",
+      },
+    });
+    expect(isDownloaded(reloaded, attachment)).toBe(true);
+    expect(JSON.parse(await readFile(statePath, "utf8")).version).toBe(1);
+  });
+
+  it("throws a descriptive error for invalid JSON", async () => {
+    const statePath = join(dir, "state.json");
+    await writeFile(statePath, "not json");
+
+    await expect(loadState(statePath)).rejects.toThrow(
+      `Failed to parse ${statePath}`
+    );
+  });
+
+  it("throws for an unknown format version", async () => {
+    const statePath = join(dir, "state.json");
+    await writeFile(statePath, JSON.stringify({ version: 2, downloads: {} }));
+
+    await expect(loadState(statePath)).rejects.toThrow("Unsupported state file format");
+  });
+
+  it("maps write errors to descriptive messages", async () => {
+    const statePath = join(dir, "missing-dir", "state.json");
+    await writeFile(join(dir, "missing-dir"), "a file, not a folder");
+
+    await expect(
+      saveState({ version: 1, downloads: {} }, statePath)
+    ).rejects.toThrow(`to "${statePath}"`);
+  });
+});
+
+describe("isDownloaded", () => {
+  it("is false for attachments not recorded", () => {
+    const state = { version: 1 as const, downloads: {} };
+
+    expect(isDownloaded(state, attachment)).toBe(false);
+    recordDownload(state, attachment);
+    expect(isDownloaded(state, attachment)).toBe(true);
+    expect(isDownloaded(state, { ...attachment, partId: "2" })).toBe(false);
+  });
+});
+
+describe("incrementalOutputPath", () => {
+  const now = new Date(2024, 2, 15, 9, 30, 5);
+
+  it("inserts a timestamp before the extension", () => {
+    expect(incrementalOutputPath("attachments.zip", now)).toBe(
+      "attachments-20240315-093005.zip"
+    );
+  });
+
+  it("ignores dots in folder names", () => {
+    expect(incrementalOutputPath("out.d/invoices", now)).toBe(
+      "out.d/invoices-20240315-093005"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import type { AttachmentInfo } from "../gmail";
+import { latestPerThread, sortByThread } from "../threads";
+
+function attachment(
+  messageId: string,
+  filename: string,
+  threadId: string | undefined,
+  date: string
+): AttachmentInfo {
+  return {
+    messageId,
+    attachmentId: `${messageId}-${filename}`,
+    filename,
+    mimeType: "application/pdf",
+    size: 100,
+    threadId,
+    date,
+  };
+}
+
+describe("sortByThread", () => {
+  it("groups attachments by thread and orders each thread by date", () => {
+    const latestDraft = attachment("m3", "contract.pdf", "t1", "2024-03-03T10:00:00.000Z");
+    const invoice = attachment("m2", "invoice.pdf", "t2", "2024-03-02T10:00:00.000Z");
+    const firstDraft = attachment("m1", "contract.pdf", "t1", "2024-03-01T10:00:00.000Z");
+    const notes = attachment("m1", "notes.pdf", "t1", "2024-03-01T10:00:00.000Z");
+
+    expect(sortByThread([latestDraft, invoice, firstDraft, notes])).toEqual([
+      firstDraft,
+      notes,
+      latestDraft,
+      invoice,
+    ]);
+  });
+
+  it("treats messages without a thread as threads of their own", () => {
+    const a = attachment("m1", "a.pdf", undefined, "2024-03-02T10:00:00.000Z");
+    const b = attachment("m2", "b.pdf", undefined, "2024-03-01T10:00:00.000Z");
+
+    expect(sortByThread([a, b])).toEqual([a, b]);
+  });
+
+  it("keeps the threads of different accounts apart", () => {
+    const work = { ...attachment("m1", "a.pdf", "t1", "2024-03-02T10:00:00.000Z"), account: "work" };
+    const home = { ...attachment("m1", "a.pdf", "t1", "2024-03-01T10:00:00.000Z"), account: "home" };
+
+    expect(sortByThread([work, home])).toEqual([work, home]);
+  });
+});
+
+describe("latestPerThread", () => {
+  it("keeps the latest file of each name in a thread", () => {
+    const drafts = sortByThread([
+      attachment("m1", "Contract.pdf", "t1", "2024-03-01T10:00:00.000Z"),
+      attachment("m1", "notes.pdf", "t1", "2024-03-01T10:00:00.000Z"),
+      attachment("m2", "contract.pdf", "t1", "2024-03-02T10:00:00.000Z"),
+      attachment("m3", "contract.pdf", "t2", "2024-03-01T12:00:00.000Z"),
+    ]);
+
+    const { kept, dropped } = latestPerThread(drafts);
+
+    expect(kept.map((att) => `${att.threadId}/${att.messageId}/${att.filename}`)).toEqual([
+      "t1/m1/notes.pdf",
+      "t1/m2/contract.pdf",
+      "t2/m3/contract.pdf",
+    ]);
+    expect(dropped).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  freePath,
+  loadCursor,
+  parseInterval,
+  pollMailbox,
+  saveCursor,
+  WATCH_CURSOR_FILE,
+  type WatchCursor,
+} from "../watch";
+
+describe("parseInterval", () => {
+  it("reads seconds, minutes and hours", () => {
+    expect(parseInterval("90")).toBe(90_000);
+    expect(parseInterval("30s")).toBe(30_000);
+    expect(parseInterval("5m")).toBe(300_000);
+    expect(parseInterval("1.5h")).toBe(5_400_000);
+  });
+
+  it("rejects invalid and too short intervals", () => {
+    expect(() => parseInterval("soon")).toThrow('Invalid interval "soon"');
+    expect(() => parseInterval("5d")).toThrow("Invalid interval");
+    expect(() => parseInterval("5s")).toThrow("the minimum is 10s");
+  });
+});
+
+describe("loadCursor and saveCursor", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-watch-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined before the first watch", async () => {
+    expect(await loadCursor(dir)).toBeUndefined();
+  });
+
+  it("round-trips the cursor without leaving a partial file", async () => {
+    const cursor: WatchCursor = {
+      version: 1,
+      query: "has:attachment",
+      historyId: "1234",
+      updatedAt: "2024-03-01T12:00:00.000Z",
+    };
+
+    await saveCursor(cursor, dir);
+
+    expect(await loadCursor(dir)).toEqual(cursor);
+    expect(await readdir(dir)).toEqual([WATCH_CURSOR_FILE]);
+  });
+
+  it("rejects damaged cursors", async () => {
+    await writeFile(join(dir, WATCH_CURSOR_FILE), "{");
+    await expect(loadCursor(dir)).rejects.toThrow("Failed to parse");
+
+    await writeFile(join(dir, WATCH_CURSOR_FILE), '{"version": 2}');
+    await expect(loadCursor(dir)).rejects.toThrow("Unsupported watch cursor format");
+  });
+});
+
+describe("pollMailbox", () => {
+  const cursor: WatchCursor = {
+    version: 1,
+    query: "from:billing has:attachment",
+    historyId: "100",
+    updatedAt: "2024-03-02T00:00:00.000Z",
+  };
+  let originalGmail: any;
+  let mockGetProfile: ReturnType<typeof mock>;
+  let mockHistoryList: ReturnType<typeof mock>;
+  let mockMessagesList: ReturnType<typeof mock>;
+
+  beforeEach(async () => {
+    const { google } = await import("googleapis");
+    originalGmail = google.gmail;
+    mockGetProfile = mock(() => Promise.resolve({ data: { historyId: "500" } }));
+    mockHistoryList = mock(() =>
+      Promise.resolve({
+        data: {
+          history: [
+            { messagesAdded: [{ message: { id: "new1" } }, { message: { id: "other" } }] },
+          ],
+          historyId: "150",
+        },
+      })
+    );
+    mockMessagesList = mock(() =>
+      Promise.resolve({ data: { messages: [{ id: "new1" }, { id: "old" }] } })
+    );
+    google.gmail = (() => ({
+      users: {
+        getProfile: mockGetProfile,
+        history: { list: mockHistoryList },
+        messages: { list: mockMessagesList },
+      },
+    })) as unknown as typeof google.gmail;
+  });
+
+  afterEach(async () => {
+    const { google } = await import("googleapis");
+    google.gmail = originalGmail;
+  });
+
+  it("searches everything on the first poll", async () => {
+    const result = await pollMailbox({} as any, cursor.query, undefined);
+
+    expect(result).toEqual({ messageIds: ["new1", "old"], historyId: "500", full: true });
+    expect(mockHistoryList).not.toHaveBeenCalled();
+  });
+
+  it("keeps only new messages that match the query", async () => {
+    const result = await pollMailbox({} as any, cursor.query, cursor);
+
+    expect(result).toEqual({ messageIds: ["new1"], historyId: "150", full: false });
+    expect(mockGetProfile).not.toHaveBeenCalled();
+    // Matched against recent mail only, a day before the last poll
+    const since = Date.parse("2024-03-01T00:00:00.000Z") / 1000;
+    expect((mockMessagesList.mock.calls[0] as any[])[0].q).toBe(
+      `${cursor.query} after:${since}`
+    );
+  });
+
+  it("skips the search when nothing arrived", async () => {
+    mockHistoryList.mockImplementation(() => Promise.resolve({ data: { historyId: "120" } }));
+
+    const result = await pollMailbox({} as any, cursor.query, cursor);
+
+    expect(result).toEqual({ messageIds: [], historyId: "120", full: false });
+    expect(mockMessagesList).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a full search when the history has expired", async () => {
+    mockHistoryList.mockImplementation(() => Promise.reject({ code: 404, message: "Not Found" }));
+
+    const result = await pollMailbox({} as any, cursor.query, cursor);
+
+    expect(result).toEqual({ messageIds: ["new1", "old"], historyId: "500", full: true });
+    expect((mockMessagesList.mock.calls[0] as any[])[0].q).toBe(cursor.query);
+  });
+
+  it("starts over for another query", async () => {
+    const result = await pollMailbox({} as any, "subject:invoice", cursor);
+
+    expect(result.full).toBe(true);
+    expect(mockHistoryList).not.toHaveBeenCalled();
+  });
+});
+
+describe("freePath", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-watch-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps free names and numbers taken ones", async () => {
+    expect(await freePath(dir, "report.pdf")).toBe("report.pdf");
+
+    await writeFile(join(dir, "report.pdf"), "");
+    await writeFile(join(dir, "report_1.pdf"), "");
+    await writeFile(join(dir, "README"), "");
+
+    expect(await freePath(dir, "report.pdf")).toBe("report_2.pdf");
+    expect(await freePath(dir, "README")).toBe("README_1");
+  });
+});
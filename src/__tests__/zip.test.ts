@@ -1,12 +1,24 @@
-import { describe, it, expect, mock, spyOn } from "bun:test";
-import { deduplicateFilenames, createZip, type FileEntry } from "../zip";
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { randomBytes } from "node:crypto";
+import { exists, mkdtemp, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import JSZip from "jszip";
+import {
+  deduplicateFilenames,
+  createVolumeWriter,
+  createZipWriter,
+  toWriteError,
+  volumePath,
+  type FileEntry,
+} from "../zip";
 
 describe("deduplicateFilenames", () => {
   it("returns files unchanged when no duplicates", () => {
     const files: FileEntry[] = [
-      { filename: "file1.txt", data: Buffer.from("data1") },
-      { filename: "file2.txt", data: Buffer.from("data2") },
-      { filename: "file3.pdf", data: Buffer.from("data3") },
+      { filename: "file1.txt", sourcePath: "data1" },
+      { filename: "file2.txt", sourcePath: "data2" },
+      { filename: "file3.pdf", sourcePath: "data3" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -19,8 +31,8 @@ describe("deduplicateFilenames", () => {
 
   it("appends _1 to second occurrence of duplicate", () => {
     const files: FileEntry[] = [
-      { filename: "file.txt", data: Buffer.from("data1") },
-      { filename: "file.txt", data: Buffer.from("data2") },
+      { filename: "file.txt", sourcePath: "data1" },
+      { filename: "file.txt", sourcePath: "data2" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -32,10 +44,10 @@ describe("deduplicateFilenames", () => {
 
   it("appends _1, _2, etc for multiple duplicates", () => {
     const files: FileEntry[] = [
-      { filename: "doc.pdf", data: Buffer.from("data1") },
-      { filename: "doc.pdf", data: Buffer.from("data2") },
-      { filename: "doc.pdf", data: Buffer.from("data3") },
-      { filename: "doc.pdf", data: Buffer.from("data4") },
+      { filename: "doc.pdf", sourcePath: "data1" },
+      { filename: "doc.pdf", sourcePath: "data2" },
+      { filename: "doc.pdf", sourcePath: "data3" },
+      { filename: "doc.pdf", sourcePath: "data4" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -49,9 +61,9 @@ describe("deduplicateFilenames", () => {
 
   it("handles files without extensions", () => {
     const files: FileEntry[] = [
-      { filename: "README", data: Buffer.from("data1") },
-      { filename: "README", data: Buffer.from("data2") },
-      { filename: "Makefile", data: Buffer.from("data3") },
+      { filename: "README", sourcePath: "data1" },
+      { filename: "README", sourcePath: "data2" },
+      { filename: "Makefile", sourcePath: "data3" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -64,8 +76,8 @@ describe("deduplicateFilenames", () => {
 
   it("handles files with multiple dots (e.g., file.tar.gz)", () => {
     const files: FileEntry[] = [
-      { filename: "archive.tar.gz", data: Buffer.from("data1") },
-      { filename: "archive.tar.gz", data: Buffer.from("data2") },
+      { filename: "archive.tar.gz", sourcePath: "data1" },
+      { filename: "archive.tar.gz", sourcePath: "data2" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -76,19 +88,55 @@ describe("deduplicateFilenames", () => {
     expect(result[1].filename).toBe("archive.tar_1.gz");
   });
 
+  it("only renames the last path segment", () => {
+    const files: FileEntry[] = [
+      { filename: "vendor.io/README", sourcePath: "data1" },
+      { filename: "vendor.io/README", sourcePath: "data2" },
+      { filename: "msg.1/doc.pdf", sourcePath: "data3" },
+      { filename: "msg.1/doc.pdf", sourcePath: "data4" },
+    ];
+
+    const result = deduplicateFilenames(files);
+
+    expect(result[0].filename).toBe("vendor.io/README");
+    expect(result[1].filename).toBe("vendor.io/README_1");
+    expect(result[2].filename).toBe("msg.1/doc.pdf");
+    expect(result[3].filename).toBe("msg.1/doc_1.pdf");
+  });
+
   it("handles empty array", () => {
     const files: FileEntry[] = [];
     const result = deduplicateFilenames(files);
     expect(result).toHaveLength(0);
   });
 
+  it("never reuses a name that is already taken", () => {
+    const files: FileEntry[] = [
+      { filename: "a.pdf", sourcePath: "1" },
+      { filename: "a.pdf", sourcePath: "2" },
+      { filename: "a_1.pdf", sourcePath: "3" },
+      { filename: "a_2.pdf", sourcePath: "4" },
+      { filename: "a.pdf", sourcePath: "5" },
+    ];
+
+    const result = deduplicateFilenames(files);
+
+    expect(result.map((file) => file.filename)).toEqual([
+      "a.pdf",
+      "a_1.pdf",
+      "a_1_1.pdf",
+      "a_2.pdf",
+      "a_3.pdf",
+    ]);
+  });
+
   it("handles mixed duplicates and unique files", () => {
     const files: FileEntry[] = [
-      { filename: "a.txt", data: Buffer.from("1") },
-      { filename: "b.txt", data: Buffer.from("2") },
-      { filename: "a.txt", data: Buffer.from("3") },
-      { filename: "c.txt", data: Buffer.from("4") },
-      { filename: "a.txt", data: Buffer.from("5") },
+      { filename: "a.txt", sourcePath: "1" },
+      { filename: "b.txt", sourcePath: "2" },
+      { filename: "a.txt", sourcePath: "3" },
+      { filename: "c.txt", sourcePath: "4" },
+      { filename: "a.txt", sourcePath: "5" },
     ];
 
     const result = deduplicateFilenames(files);
@@ -102,70 +150,304 @@ describe("deduplicateFilenames", () => {
   });
 });
 
-describe("createZip", () => {
-  it("creates a valid ZIP buffer with files", async () => {
-    const files: FileEntry[] = [
-      { filename: "test.txt", data: Buffer.from("hello world") },
-    ];
-
-    const result = await createZip(files);
+describe("createZipWriter", () => {
+  let dir: string;
+  let mockConsoleWarn: ReturnType<typeof spyOn>;
 
-    // ZIP files start with PK signature (0x504B)
-    expect(result).toBeInstanceOf(Buffer);
-    expect(result.length).toBeGreaterThan(0);
-    expect(result[0]).toBe(0x50); // 'P'
-    expect(result[1]).toBe(0x4b); // 'K'
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-zip-"));
+    mockConsoleWarn = spyOn(console, "warn").mockImplementation(() => {});
   });
 
-  it("creates ZIP with multiple files", async () => {
-    const files: FileEntry[] = [
-      { filename: "file1.txt", data: Buffer.from("content1") },
-      { filename: "file2.txt", data: Buffer.from("content2") },
-      { filename: "file3.txt", data: Buffer.from("content3") },
-    ];
-
-    const result = await createZip(files);
-
-    expect(result).toBeInstanceOf(Buffer);
-    expect(result.length).toBeGreaterThan(0);
+  afterEach(async () => {
+    mockConsoleWarn.mockRestore();
+    await rm(dir, { recursive: true, force: true });
   });
 
-  it("handles duplicate filenames by deduplicating", async () => {
-    const files: FileEntry[] = [
-      { filename: "same.txt", data: Buffer.from("first") },
-      { filename: "same.txt", data: Buffer.from("second") },
-    ];
+  async function source(name: string, data: Buffer | string): Promise<string> {
+    const sourcePath = join(dir, name);
+    await writeFile(sourcePath, data);
+    return sourcePath;
+  }
+
+  it("creates a valid ZIP file with files", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("test.txt", await source("a", "hello world"));
+    const size = await writer.close();
 
-    // This should not throw - deduplication handles it
-    const result = await createZip(files);
+    const data = await readFile(zipPath);
+    // ZIP files start with PK signature (0x504B)
+    expect(data[0]).toBe(0x50); // 'P'
+    expect(data[1]).toBe(0x4b); // 'K'
+    expect(size).toBe(data.length);
 
-    expect(result).toBeInstanceOf(Buffer);
-    expect(result.length).toBeGreaterThan(0);
+    const zip = await JSZip.loadAsync(data);
+    expect(await zip.file("test.txt")!.async("string")).toBe("hello world");
   });
 
-  it("creates ZIP with empty file array", async () => {
-    const files: FileEntry[] = [];
+  it("creates ZIP with multiple files in folders", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("a/file1.txt", await source("1", "content1"));
+    await writer.addFile("b/file2.txt", await source("2", "content2"));
+    await writer.addFile("file3.txt", await source("3", "content3"));
+    await writer.close();
+
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    expect(await zip.file("a/file1.txt")!.async("string")).toBe("content1");
+    expect(await zip.file("b/file2.txt")!.async("string")).toBe("content2");
+    expect(await zip.file("file3.txt")!.async("string")).toBe("content3");
+  });
 
-    const result = await createZip(files);
+  it("creates ZIP with no entries", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.close();
 
     // Empty ZIP is still a valid ZIP file
-    expect(result).toBeInstanceOf(Buffer);
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    expect(Object.keys(zip.files)).toHaveLength(0);
   });
 
-  it("handles binary data correctly", async () => {
+  it("handles binary data and empty files correctly", async () => {
     // Create binary data with all byte values
     const binaryData = Buffer.alloc(256);
     for (let i = 0; i < 256; i++) {
       binaryData[i] = i;
     }
 
-    const files: FileEntry[] = [
-      { filename: "binary.bin", data: binaryData },
-    ];
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("binary.bin", await source("bin", binaryData));
+    await writer.addFile("empty.txt", await source("empty", ""));
+    await writer.close();
+
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    expect(await zip.file("binary.bin")!.async("nodebuffer")).toEqual(binaryData);
+    expect(await zip.file("empty.txt")!.async("string")).toBe("");
+  });
+
+  it("streams files larger than one read chunk", async () => {
+    const large = Buffer.alloc(1024 * 1024);
+    for (let i = 0; i < large.length; i++) {
+      large[i] = (i * 7919) % 251;
+    }
+
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("large.bin", await source("large", large));
+    await writer.close();
+
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    expect(await zip.file("large.bin")!.async("nodebuffer")).toEqual(large);
+  });
+
+  it("stores UTF-8 filenames and modification dates", async () => {
+    const zipPath = join(dir, "out.zip");
+    const modifiedAt = new Date(2024, 2, 15, 9, 30, 4);
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("fattura è.pdf", await source("u", "x"), modifiedAt);
+    await writer.close();
+
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    const entry = zip.file("fattura è.pdf")!;
+    expect(entry).not.toBeNull();
+    expect(entry.date.getTime()).toBe(modifiedAt.getTime());
+  });
+
+  it("stores symbolic links as Unix link entries", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("a/doc.pdf", await source("1", "content"));
+    await writer.addSymlink("b/doc.pdf", "../a/doc.pdf");
+    await writer.close();
+
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    const link = zip.file("b/doc.pdf")!;
+    expect(await link.async("string")).toBe("../a/doc.pdf");
+    expect(Number(link.unixPermissions) & 0o170000).toBe(0o120000);
+    expect(zip.file("a/doc.pdf")!.unixPermissions).toBeNull();
+  });
+
+  it("only creates the output file on close", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("a.txt", await source("a", "a"));
+
+    expect(await exists(zipPath)).toBe(false);
+    await writer.close();
+    expect(await exists(zipPath)).toBe(true);
+    expect(await exists(`${zipPath}.partial`)).toBe(false);
+  });
+
+  it("removes the partial archive on abort", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath);
+    await writer.addFile("a.txt", await source("a", "a"));
+    await writer.abort();
 
-    const result = await createZip(files);
+    expect(await exists(zipPath)).toBe(false);
+    expect(await exists(`${zipPath}.partial`)).toBe(false);
+  });
+
+  it("warns when overwriting an existing file", async () => {
+    const zipPath = join(dir, "out.zip");
+    await writeFile(zipPath, "old");
+
+    const writer = await createZipWriter(zipPath);
+    await writer.close();
+
+    expect(mockConsoleWarn).toHaveBeenCalledWith(
+      `Warning: Overwriting existing file: ${zipPath}`
+    );
+  });
+
+  it("refuses entries that would take it over the size limit", async () => {
+    const zipPath = join(dir, "out.zip");
+    const writer = await createZipWriter(zipPath, 3000);
+
+    expect(await writer.addFile("a.bin", await source("a", randomBytes(2000)))).toBe(true);
+    expect(await writer.addFile("b.bin", await source("b", randomBytes(2000)))).toBe(false);
+    expect(await writer.addFile("c.txt", await source("c", "small"))).toBe(true);
+    const size = await writer.close();
+
+    expect(size).toBeLessThanOrEqual(3000);
+    expect(size).toBe((await stat(zipPath)).size);
+    const zip = await JSZip.loadAsync(await readFile(zipPath));
+    expect(Object.keys(zip.files)).toEqual(["a.bin", "c.txt"]);
+    expect(await zip.file("c.txt")!.async("string")).toBe("small");
+  });
+
+  it("always adds the first entry", async () => {
+    const writer = await createZipWriter(join(dir, "out.zip"), 100);
+
+    expect(await writer.addFile("a.bin", await source("a", randomBytes(500)))).toBe(true);
+    expect(await writer.close()).toBeGreaterThan(100);
+  });
+
+  it("reports a descriptive error when the output cannot be created", async () => {
+    const zipPath = join(dir, "missing", "out.zip");
+
+    await expect(createZipWriter(zipPath)).rejects.toThrow(
+      `Failed to write ZIP file to "${zipPath}"`
+    );
+  });
+});
+
+describe("volumePath", () => {
+  it("numbers the volume before the extension", () => {
+    expect(volumePath("attachments.zip", 1)).toBe("attachments.part001.zip");
+    expect(volumePath("out/v1.2/export.zip", 12)).toBe("out/v1.2/export.part012.zip");
+    expect(volumePath("out/export", 3)).toBe("out/export.part003");
+  });
+});
+
+describe("createVolumeWriter", () => {
+  let dir: string;
+  let mockConsoleWarn: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gmail-attachments-zip-"));
+    mockConsoleWarn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    mockConsoleWarn.mockRestore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function source(name: string, data: Buffer): Promise<string> {
+    const sourcePath = join(dir, name);
+    await writeFile(sourcePath, data);
+    return sourcePath;
+  }
+
+  it("packs whole files into volumes within the limit", async () => {
+    const contents = [randomBytes(1500), randomBytes(1500), randomBytes(1500), randomBytes(200)];
+    const writer = await createVolumeWriter(join(dir, "out.zip"), 3500);
+    for (const [index, data] of contents.entries()) {
+      await writer.addFile(`f${index}.bin`, await source(`s${index}`, data));
+    }
+    await writer.addSymlink("link.bin", "f0.bin");
+    const volumes = await writer.close();
+
+    expect(volumes.map(({ path, entries }) => [path, entries])).toEqual([
+      [join(dir, "out.part001.zip"), 2],
+      [join(dir, "out.part002.zip"), 3],
+    ]);
+    const found = new Map<string, Buffer>();
+    for (const volume of volumes) {
+      expect(volume.size).toBeLessThanOrEqual(3500);
+      const zip = await JSZip.loadAsync(await readFile(volume.path));
+      for (const name of Object.keys(zip.files)) {
+        found.set(name, await zip.file(name)!.async("nodebuffer"));
+      }
+    }
+    contents.forEach((data, index) => expect(found.get(`f${index}.bin`)).toEqual(data));
+    expect(found.get("link.bin")!.toString()).toBe("f0.bin");
+  });
+
+  it("gives a file larger than the limit a volume of its own", async () => {
+    const writer = await createVolumeWriter(join(dir, "out.zip"), 1000);
+    await writer.addFile("small.bin", await source("a", randomBytes(100)));
+    await writer.addFile("large.bin", await source("b", randomBytes(5000)));
+    await writer.addFile("next.bin", await source("c", randomBytes(100)));
+    const volumes = await writer.close();
+
+    expect(volumes.map((volume) => volume.entries)).toEqual([1, 1, 1]);
+    expect(volumes[1].size).toBeGreaterThan(1000);
+    expect(volumes[2].size).toBeLessThanOrEqual(1000);
+  });
+
+  it("removes later volumes of an earlier, larger archive", async () => {
+    for (const part of [1, 2, 3]) {
+      await writeFile(volumePath(join(dir, "out.zip"), part), "old");
+    }
+    const writer = await createVolumeWriter(join(dir, "out.zip"), 1000);
+    await writer.addFile("a.bin", await source("a", randomBytes(100)));
+    await writer.close();
+
+    expect((await readdir(dir)).filter((name) => name.startsWith("out."))).toEqual([
+      "out.part001.zip",
+    ]);
+  });
+
+  it("removes every volume on abort", async () => {
+    const writer = await createVolumeWriter(join(dir, "out.zip"), 1000);
+    await writer.addFile("a.bin", await source("a", randomBytes(800)));
+    await writer.addFile("b.bin", await source("b", randomBytes(800)));
+    await writer.abort();
+
+    expect((await readdir(dir)).filter((name) => name.startsWith("out."))).toEqual([]);
+  });
+});
+
+describe("toWriteError", () => {
+  it("maps permission errors", () => {
+    const error = Object.assign(new Error("denied"), { code: "EACCES" });
+    expect(toWriteError(error, "out.zip", "ZIP file").message).toBe(
+      'Permission denied: Cannot write to "out.zip". Check file/directory permissions.'
+    );
+  });
+
+  it("maps disk full errors", () => {
+    const error = Object.assign(new Error("full"), { code: "ENOSPC" });
+    expect(toWriteError(error, "out.zip", "ZIP file").message).toBe(
+      'Disk full: Not enough space to write "out.zip".'
+    );
+  });
+
+  it("maps read-only filesystem errors", () => {
+    const error = Object.assign(new Error("ro"), { code: "EROFS" });
+    expect(toWriteError(error, "out.zip", "ZIP file").message).toBe(
+      'Read-only filesystem: Cannot write to "out.zip".'
+    );
+  });
 
-    expect(result).toBeInstanceOf(Buffer);
-    expect(result.length).toBeGreaterThan(0);
+  it("adds context to other errors", () => {
+    expect(toWriteError(new Error("boom"), "out", "file").message).toBe(
+      'Failed to write file to "out": boom'
+    );
   });
 });
@@ -0,0 +1,103 @@
+// Actions module - tidies up the mailbox once attachments are exported
+import type { OAuth2Client } from "google-auth-library";
+import { DEFAULT_ACCOUNT } from "./auth";
+import {
+  type AttachmentInfo,
+  DEFAULT_USER_ID,
+  getOrCreateLabel,
+  modifyMessages,
+  trashMessage,
+} from "./gmail";
+
+export interface MailboxActions {
+  // Label to apply, created when missing
+  addLabel?: string;
+  // Remove the messages from the inbox
+  archive: boolean;
+  markRead: boolean;
+  // Move the messages to the trash; asked for confirmation
+  trash: boolean;
+}
+
+export function noActions(): MailboxActions {
+  return { archive: false, markRead: false, trash: false };
+}
+
+export function hasActions(actions: MailboxActions): boolean {
+  return actions.addLabel !== undefined || actions.archive || actions.markRead || actions.trash;
+}
+
+// Short description for status messages, e.g. 'label "Exported", mark read'
+export function describeActions(actions: MailboxActions): string {
+  const parts: string[] = [];
+  if (actions.addLabel !== undefined) parts.push(`label "${actions.addLabel}"`);
+  if (actions.archive) parts.push("archive");
+  if (actions.markRead) parts.push("mark read");
+  if (actions.trash) parts.push("move to trash");
+  return parts.join(", ");
+}
+
+/**
+ * Picks the messages whose attachments were all exported
+ * A message with any attachment that could not be downloaded, or that a
+ * filter left out, is left alone so trashing it loses nothing
+ * @param downloaded - Attachments (and saved emails) written to the output
+ * @param leftOut - Attachments that could not be downloaded or were filtered out
+ * @returns Message IDs by account, in the order first downloaded
+ */
+export function completedMessages(
+  downloaded: AttachmentInfo[],
+  leftOut: AttachmentInfo[]
+): Map<string, string[]> {
+  const key = (att: AttachmentInfo) => `${att.account ?? DEFAULT_ACCOUNT}\0${att.messageId}`;
+  const incomplete = new Set(leftOut.map(key));
+  const seen = new Set<string>();
+  const messages = new Map<string, string[]>();
+
+  for (const att of downloaded) {
+    const id = key(att);
+    if (incomplete.has(id) || seen.has(id)) continue;
+    seen.add(id);
+
+    const account = att.account ?? DEFAULT_ACCOUNT;
+    const ids = messages.get(account) ?? [];
+    ids.push(att.messageId);
+    messages.set(account, ids);
+  }
+
+  return messages;
+}
+
+/**
+ * Applies the actions to messages of one mailbox
+ * Labels are changed first, so trashed messages carry the label too
+ * @param auth - Client authorized with the gmail.modify scope
+ * @param messageIds - Messages to change
+ * @param actions - Actions to apply
+ * @param userId - Mailbox, the signed-in user by default
+ * @throws Error when Gmail rejects a change
+ */
+export async function applyActions(
+  auth: OAuth2Client,
+  messageIds: string[],
+  actions: MailboxActions,
+  userId: string = DEFAULT_USER_ID
+): Promise<void> {
+  if (messageIds.length === 0) return;
+
+  const addLabelIds =
+    actions.addLabel !== undefined ? [await getOrCreateLabel(auth, actions.addLabel, userId)] : [];
+  const removeLabelIds: string[] = [];
+  if (actions.archive) removeLabelIds.push("INBOX");
+  if (actions.markRead) removeLabelIds.push("UNREAD");
+
+  if (addLabelIds.length > 0 || removeLabelIds.length > 0) {
+    await modifyMessages(auth, messageIds, { addLabelIds, removeLabelIds }, userId);
+  }
+
+  if (actions.trash) {
+    for (const messageId of messageIds) {
+      await trashMessage(auth, messageId, userId);
+    }
+  }
+}
@@ -1,10 +1,74 @@
 // OAuth2 authentication module
+// Messages go to standard error, as standard output may carry a dry-run inventory
 import { google } from "googleapis";
-import type { OAuth2Client, Credentials } from "google-auth-library";
+import {
+  CodeChallengeMethod,
+  type OAuth2Client,
+  type Credentials,
+} from "google-auth-library";
+import { randomBytes } from "node:crypto";
+import { chmod, mkdir, readdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  clearPassphrase,
+  decryptJson,
+  encryptJson,
+  getPassphrase,
+  isEncrypted,
+  PASSPHRASE_ENV,
+  readLine,
+} from "./encryption";
 
-const SCOPES = ["https://www.googleapis.com/auth/gmail.readonly"];
-const CREDENTIALS_PATH = "credentials.json";
-const TOKEN_PATH = "token.json";
+const READONLY_SCOPE = "https://www.googleapis.com/auth/gmail.readonly";
+// Asked for only when mailbox actions change messages; it includes reading
+const MODIFY_SCOPE = "https://www.googleapis.com/auth/gmail.modify";
+
+export interface AuthPaths {
+  credentials: string;
+  token: string;
+  // Tokens of named accounts (--account), one file per account
+  tokensDir: string;
+}
+
+// Where credentials and tokens are kept; the config file may move them
+const paths: AuthPaths = {
+  credentials: "credentials.json",
+  token: "token.json",
+  tokensDir: "tokens",
+};
+
+// The account used without --account; its token stays in token.json
+export const DEFAULT_ACCOUNT = "default";
+
+// Path Google redirects the browser to after sign-in
+const CALLBACK_PATH = "/oauth2callback";
+// Redirect target of the manual flow; nothing listens there, the user copies the URL
+const MANUAL_REDIRECT_URI = `http://127.0.0.1${CALLBACK_PATH}`;
+// How long the local listener waits for the browser
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+// Passphrases typed at the prompt before giving up on a saved token
+const PASSPHRASE_ATTEMPTS = 3;
+
+export interface AuthorizeOptions {
+  // Paste the redirect URL instead of running a local listener (headless machines)
+  manual?: boolean;
+  // Mailbox a service account opens through domain-wide delegation
+  impersonate?: string;
+  // Ask for permission to change messages (labels, read state, trash)
+  modify?: boolean;
+}
+
+export interface LoopbackListener {
+  redirectUri: string;
+  // Resolves with the authorization code once the browser returns
+  code: Promise<string>;
+  close(): void;
+}
+
+export interface AccountInfo {
+  name: string;
+  tokenPath: string;
+}
 
 interface OAuthCredentials {
   installed: {
@@ -14,73 +78,351 @@ interface OAuthCredentials {
   };
 }
 
-// T2.1 - Load OAuth2 credentials from credentials.json
-async function loadCredentials(): Promise<OAuthCredentials> {
-  const file = Bun.file(CREDENTIALS_PATH);
+// JSON key of a Google Workspace service account
+interface ServiceAccountKey {
+  type: "service_account";
+  client_email: string;
+  private_key: string;
+}
+
+type ClientCredentials = OAuthCredentials | ServiceAccountKey;
+
+function isServiceAccountKey(credentials: ClientCredentials): credentials is ServiceAccountKey {
+  return (credentials as ServiceAccountKey).type === "service_account";
+}
+
+function scopesFor(options: AuthorizeOptions): string[] {
+  return [options.modify ? MODIFY_SCOPE : READONLY_SCOPE];
+}
+
+// Token with the scopes Google granted, separated by spaces (not in the Credentials type)
+type ScopedCredentials = Credentials & { scope?: string };
+
+// Tokens without a scope list are treated as read-only
+function grantsModify(token: ScopedCredentials): boolean {
+  return (token.scope ?? "").split(" ").includes(MODIFY_SCOPE);
+}
+
+// T2.1 - Load OAuth2 credentials (or a service account key) from credentials.json
+async function loadCredentials(): Promise<ClientCredentials> {
+  const file = Bun.file(paths.credentials);
 
   if (!(await file.exists())) {
     throw new Error(
-      `Missing ${CREDENTIALS_PATH}. Download OAuth 2.0 credentials from Google Cloud Console.`
+      `Missing ${paths.credentials}. Download OAuth 2.0 credentials from Google Cloud Console.`
     );
   }
 
   try {
     const content = await file.text();
-    return JSON.parse(content) as OAuthCredentials;
+    return JSON.parse(content) as ClientCredentials;
   } catch (error) {
     throw new Error(
-      `Failed to parse ${CREDENTIALS_PATH}. Ensure it contains valid JSON.`
+      `Failed to parse ${paths.credentials}. Ensure it contains valid JSON.`
+    );
+  }
+}
+
+/**
+ * Moves the credentials file and saved tokens, e.g. to the config file's choice
+ * @param changes - Locations to change; the others stay as they are
+ */
+export function configureAuthPaths(changes: Partial<AuthPaths>): void {
+  for (const [key, value] of Object.entries(changes) as [keyof AuthPaths, string | undefined][]) {
+    if (value) paths[key] = value;
+  }
+}
+
+/**
+ * Checks that an account name can be used as a token filename
+ * @param name - Account name from --account
+ * @throws Error when the name contains anything but letters, digits, ".", "_" and "-"
+ */
+export function validateAccountName(name: string): void {
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(name)) {
+    throw new Error(
+      `Invalid account name "${name}". Use letters, digits, ".", "_" and "-".`
     );
   }
 }
 
+/**
+ * Finds the token file of an account
+ * @param account - Account name, the default account when undefined
+ * @returns token.json for the default account, tokens/<name>.json otherwise
+ */
+export function tokenPath(account: string = DEFAULT_ACCOUNT): string {
+  return account === DEFAULT_ACCOUNT ? paths.token : join(paths.tokensDir, `${account}.json`);
+}
+
+/**
+ * Lists the accounts that have a saved token
+ * @returns The default account first (when signed in), then named accounts by name
+ */
+export async function listAccounts(): Promise<AccountInfo[]> {
+  const accounts: AccountInfo[] = [];
+  if (await Bun.file(paths.token).exists()) {
+    accounts.push({ name: DEFAULT_ACCOUNT, tokenPath: paths.token });
+  }
+
+  let names: string[] = [];
+  try {
+    names = await readdir(paths.tokensDir);
+  } catch {
+    // No named accounts yet
+  }
+  for (const name of names.filter((n) => n.endsWith(".json")).sort()) {
+    const account = name.slice(0, -".json".length);
+    accounts.push({ name: account, tokenPath: tokenPath(account) });
+  }
+
+  return accounts;
+}
+
+/**
+ * Deletes the saved token of an account, so the next run signs in again
+ * @param account - Account name
+ * @returns False when the account had no token
+ */
+export async function removeAccount(account: string): Promise<boolean> {
+  const path = tokenPath(account);
+  if (!(await Bun.file(path).exists())) {
+    return false;
+  }
+  await rm(path);
+  return true;
+}
+
 // T2.2 - Load cached token from token.json
-async function loadCachedToken(): Promise<Credentials | null> {
-  const file = Bun.file(TOKEN_PATH);
+// Tokens are encrypted with the passphrase; plain tokens of older versions
+// are encrypted on first use
+async function loadCachedToken(path: string = paths.token): Promise<Credentials | null> {
+  const file = Bun.file(path);
 
   if (!(await file.exists())) {
     return null;
   }
 
+  let content: unknown;
   try {
-    const content = await file.text();
-    return JSON.parse(content) as Credentials;
+    content = JSON.parse(await file.text());
   } catch {
     return null;
   }
+
+  if (!isEncrypted(content)) {
+    const token = content as Credentials;
+    console.error(`Encrypting the plain token in ${path}`);
+    await saveToken(token, path);
+    return token;
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const passphrase = await getPassphrase();
+    try {
+      return (await decryptJson(content, passphrase)) as Credentials;
+    } catch (error) {
+      // A typed passphrase may be retried; one from the environment won't change
+      if (process.env[PASSPHRASE_ENV] || attempt >= PASSPHRASE_ATTEMPTS) {
+        throw new Error(
+          `Cannot decrypt ${path}: ${(error as Error).message}. ` +
+            `Use the passphrase it was saved with (${PASSPHRASE_ENV} or the prompt), ` +
+            `or delete ${path} to sign in again.`
+        );
+      }
+      console.error("Wrong passphrase, try again.");
+      clearPassphrase();
+    }
+  }
+}
+
+/**
+ * Asks for the passphrase of saved tokens now, checked against the first of them
+ * @returns The passphrase, or undefined when no token is saved
+ * @throws Error when the passphrase does not decrypt the token
+ */
+export async function unlockTokens(): Promise<string | undefined> {
+  const [account] = await listAccounts();
+  if (!account) return undefined;
+  await loadCachedToken(account.tokenPath);
+  return getPassphrase();
+}
+
+// T2.2 - Save token to token.json (or the token file of a named account), encrypted
+// Only the owner may read it; an existing file is restricted before it is
+// overwritten, as the mode given to writeFile applies to new files only
+async function saveToken(token: Credentials, path: string = paths.token): Promise<void> {
+  const encrypted = await encryptJson(token, await getPassphrase(true));
+  await mkdir(dirname(path), { recursive: true });
+  await chmod(path, 0o600).catch((error: NodeJS.ErrnoException) => {
+    if (error.code !== "ENOENT") throw error;
+  });
+  await writeFile(path, JSON.stringify(encrypted, null, 2), { mode: 0o600 });
+  console.error(`Token saved to ${path}`);
+}
+
+/**
+ * Reads the authorization code from the URL Google redirected the browser to
+ * @param url - Redirect URL with code and state, or error, parameters
+ * @param expectedState - State sent with the authorization request
+ * @returns Authorization code
+ * @throws Error when the state does not match, sign-in was refused or the code is missing
+ */
+function readAuthCode(url: URL, expectedState: string): string {
+  if (url.searchParams.get("state") !== expectedState) {
+    throw new Error(
+      "Authorization response does not match this sign-in (state mismatch). Start the sign-in again."
+    );
+  }
+
+  const error = url.searchParams.get("error");
+  if (error) {
+    throw new Error(`Authorization was not granted: ${error}`);
+  }
+
+  const code = url.searchParams.get("code");
+  if (!code) {
+    throw new Error("Authorization response has no code.");
+  }
+  return code;
 }
 
-// T2.2 - Save token to token.json
-async function saveToken(token: Credentials): Promise<void> {
-  await Bun.write(TOKEN_PATH, JSON.stringify(token, null, 2));
-  console.log(`Token saved to ${TOKEN_PATH}`);
+function callbackPage(message: string, status = 200): Response {
+  // The message may quote the error parameter of the request
+  const text = message.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return new Response(
+    `<!DOCTYPE html>\n<title>Gmail Attachments Downloader</title>\n<p>${text}</p>\n`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+/**
+ * Starts a temporary HTTP listener on an ephemeral loopback port for the OAuth redirect
+ * @param expectedState - State sent with the authorization request
+ * @param timeoutMs - How long to wait for the browser
+ * @returns Listener whose code settles with the first callback
+ * @throws Error when no local port can be opened
+ */
+function startLoopbackListener(
+  expectedState: string,
+  timeoutMs: number = CALLBACK_TIMEOUT_MS
+): LoopbackListener {
+  let resolveCode!: (code: string) => void;
+  let rejectCode!: (error: Error) => void;
+  const code = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve;
+    rejectCode = reject;
+  });
+  // A failed callback may arrive before anyone awaits the code
+  code.catch(() => {});
+
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname !== CALLBACK_PATH) {
+        return new Response("Not found", { status: 404 });
+      }
+      try {
+        resolveCode(readAuthCode(url, expectedState));
+        return callbackPage("Authorization complete. You can close this window.");
+      } catch (error) {
+        rejectCode(error as Error);
+        return callbackPage(`Authorization failed: ${(error as Error).message}`, 400);
+      }
+    },
+  });
+
+  const timer = setTimeout(
+    () => rejectCode(new Error("Timed out waiting for the browser to return from sign-in.")),
+    timeoutMs
+  );
+
+  return {
+    redirectUri: `http://127.0.0.1:${server.port}${CALLBACK_PATH}`,
+    code,
+    close: () => {
+      clearTimeout(timer);
+      // Let the response to the browser finish before the listener goes away
+      server.stop();
+    },
+  };
 }
 
 // T2.3 - Run OAuth2 authorization flow
-async function runAuthFlow(oAuth2Client: OAuth2Client): Promise<Credentials> {
+// The browser returns to a local listener (loopback flow); PKCE binds the code
+// to this process and the state to this sign-in. Without a listener the user
+// pastes the address the browser was sent to.
+async function runAuthFlow(
+  oAuth2Client: OAuth2Client,
+  options: AuthorizeOptions = {}
+): Promise<Credentials> {
+  const { codeVerifier, codeChallenge } = await oAuth2Client.generateCodeVerifierAsync();
+  const state = randomBytes(16).toString("hex");
+
+  let listener: LoopbackListener | undefined;
+  if (!options.manual) {
+    try {
+      listener = startLoopbackListener(state);
+    } catch (error) {
+      console.error(
+        `Could not start a local listener (${(error as Error).message}), falling back to pasting the code.`
+      );
+    }
+  }
+  const redirectUri = listener?.redirectUri ?? MANUAL_REDIRECT_URI;
+
   const authUrl = oAuth2Client.generateAuthUrl({
     access_type: "offline",
-    scope: SCOPES,
+    scope: scopesFor(options),
+    redirect_uri: redirectUri,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: CodeChallengeMethod.S256,
   });
 
-  console.log("Authorize this app by visiting this URL:");
-  console.log(authUrl);
-  console.log();
+  console.error("Authorize this app by visiting this URL:");
+  console.error(authUrl);
+  console.error();
 
-  const code = prompt("Enter the authorization code from that page:");
+  let code: string;
+  if (listener) {
+    console.error("Waiting for the browser to return here...");
+    try {
+      code = await listener.code;
+    } finally {
+      listener.close();
+    }
+  } else {
+    console.error("The browser ends on a page that does not load; copy its address.");
+    const answer = (await readLine("Paste that address (or only its code parameter):"))?.trim();
 
-  if (!code) {
-    throw new Error("Authorization code is required.");
+    if (!answer) {
+      throw new Error("Authorization code is required.");
+    }
+    code = /^https?:\/\//.test(answer) ? readAuthCode(new URL(answer), state) : answer;
   }
 
-  const { tokens } = await oAuth2Client.getToken(code);
+  const { tokens } = await oAuth2Client.getToken({
+    code,
+    codeVerifier,
+    redirect_uri: redirectUri,
+  });
+  // The consent screen lets the user leave out a permission
+  if (options.modify && !grantsModify(tokens)) {
+    throw new Error(
+      "Permission to change messages was not granted. Sign in again and allow viewing and modifying your email, or run without mailbox actions."
+    );
+  }
   return tokens;
 }
 
 // T2.4 - Check if token is expired and refresh if needed
 async function refreshTokenIfNeeded(
   oAuth2Client: OAuth2Client,
-  token: Credentials
+  token: Credentials,
+  path: string = paths.token
 ): Promise<Credentials> {
   oAuth2Client.setCredentials(token);
 
@@ -91,17 +433,23 @@ async function refreshTokenIfNeeded(
 
   if (expiryDate && expiryDate - now < bufferMs) {
     if (token.refresh_token) {
-      console.log("Token expired, refreshing...");
+      console.error("Token expired, refreshing...");
       try {
-        const { credentials } = await oAuth2Client.refreshAccessToken();
+        const { credentials }: { credentials: ScopedCredentials } =
+          await oAuth2Client.refreshAccessToken();
         // Preserve the refresh_token if the new credentials don't include one
         if (!credentials.refresh_token && token.refresh_token) {
           credentials.refresh_token = token.refresh_token;
         }
-        await saveToken(credentials);
+        // Keep the granted scopes too, so mailbox actions need no new sign-in
+        const { scope } = token as ScopedCredentials;
+        if (!credentials.scope && scope) {
+          credentials.scope = scope;
+        }
+        await saveToken(credentials, path);
         return credentials;
       } catch (error) {
-        console.log("Failed to refresh token, re-authorization required.");
+        console.error("Failed to refresh token, re-authorization required.");
         throw error;
       }
     } else {
@@ -112,12 +460,75 @@ async function refreshTokenIfNeeded(
   return token;
 }
 
+/**
+ * Opens a user's mailbox with a service account and domain-wide delegation
+ * @param key - Service account key from credentials.json
+ * @param user - Email address of the mailbox to impersonate
+ * @param options - Whether to ask for permission to change messages
+ * @returns Client acting as the user
+ * @throws Error when the service account may not impersonate the user
+ */
+async function authorizeServiceAccount(
+  key: ServiceAccountKey,
+  user: string,
+  options: AuthorizeOptions = {}
+): Promise<OAuth2Client> {
+  const scopes = scopesFor(options);
+  const client = new google.auth.JWT({
+    email: key.client_email,
+    key: key.private_key,
+    scopes,
+    subject: user,
+  });
+
+  try {
+    // Fetch a token now, so a missing delegation fails before any search
+    await client.authorize();
+  } catch (error) {
+    throw new Error(
+      `Service account ${key.client_email} cannot open the mailbox of ${user} (${(error as Error).message}). ` +
+        `Check that domain-wide delegation grants its client ID the scope ${scopes.join(", ")}.`
+    );
+  }
+  return client;
+}
+
 // Export internal functions for testing
-export { loadCredentials, loadCachedToken, saveToken, refreshTokenIfNeeded };
+export {
+  loadCredentials,
+  authorizeServiceAccount,
+  loadCachedToken,
+  saveToken,
+  refreshTokenIfNeeded,
+  readAuthCode,
+  startLoopbackListener,
+  runAuthFlow,
+};
 
 // T2.5 - Main authorize function
-export async function authorize(): Promise<OAuth2Client> {
+// Each account has its own token; a new account signs in on first use.
+// A service account key needs the mailbox to impersonate and keeps no token.
+export async function authorize(
+  account: string = DEFAULT_ACCOUNT,
+  options: AuthorizeOptions = {}
+): Promise<OAuth2Client> {
+  const path = tokenPath(account);
   const credentials = await loadCredentials();
+
+  if (isServiceAccountKey(credentials)) {
+    if (!options.impersonate) {
+      throw new Error(
+        `${paths.credentials} holds a service account key. Use --impersonate <user@domain> to choose the mailbox.`
+      );
+    }
+    return authorizeServiceAccount(credentials, options.impersonate, options);
+  }
+  if (options.impersonate) {
+    throw new Error(
+      `--impersonate needs a service account key in ${paths.credentials}, not OAuth client credentials.`
+    );
+  }
+
   const { client_id, client_secret, redirect_uris } = credentials.installed;
 
   const oAuth2Client = new google.auth.OAuth2(
@@ -127,23 +538,35 @@ export async function authorize(): Promise<OAuth2Client> {
   );
 
   // Try to load cached token
-  let token = await loadCachedToken();
+  let token = await loadCachedToken(path);
+
+  // A read-only token cannot change messages; consent is asked for again
+  if (token && options.modify && !grantsModify(token)) {
+    console.error(
+      `Mailbox actions need permission to change messages, which ${path} was not granted. ` +
+        "Sign in again and allow viewing and modifying your email."
+    );
+    token = null;
+  }
 
   if (token) {
     try {
       // Check and refresh if needed
-      token = await refreshTokenIfNeeded(oAuth2Client, token);
+      token = await refreshTokenIfNeeded(oAuth2Client, token, path);
       oAuth2Client.setCredentials(token);
       return oAuth2Client;
     } catch {
       // Token refresh failed, need to re-authorize
-      console.log("Cached token invalid, starting new authorization flow...");
+      console.error("Cached token invalid, starting new authorization flow...");
     }
   }
 
   // No valid token, run auth flow
-  token = await runAuthFlow(oAuth2Client);
-  await saveToken(token);
+  if (account !== DEFAULT_ACCOUNT) {
+    console.error(`Sign in with the Google account to use as "${account}".`);
+  }
+  token = await runAuthFlow(oAuth2Client, options);
+  await saveToken(token, path);
   oAuth2Client.setCredentials(token);
 
   return oAuth2Client;
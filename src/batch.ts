@@ -0,0 +1,107 @@
+// Gmail batch request module - multipart/mixed encoding of many API calls
+import type { OAuth2Client } from "google-auth-library";
+
+const BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+
+export interface BatchRequest {
+  // Path and query relative to the API host, e.g. "/gmail/v1/users/me/messages/123"
+  path: string;
+}
+
+export interface BatchResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Encodes requests as a multipart/mixed batch body
+ * Each part carries a Content-ID so responses can be matched to requests
+ * @param requests - GET requests to batch
+ * @param boundary - Multipart boundary
+ * @returns Request body
+ */
+export function encodeBatch(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map(
+    (request, index) =>
+      `--${boundary}\r\n` +
+      "Content-Type: application/http\r\n" +
+      `Content-ID: <item-${index}>\r\n\r\n` +
+      `GET ${request.path}\r\n\r\n`
+  );
+
+  return `${parts.join("")}--${boundary}--\r\n`;
+}
+
+/**
+ * Decodes a multipart/mixed batch response
+ * @param body - Response body
+ * @param contentType - Content-Type header of the response, carrying the boundary
+ * @param count - Number of requests in the batch
+ * @returns Responses in request order; missing responses get status 0
+ * @throws Error when the content type has no boundary
+ */
+export function decodeBatch(
+  body: string,
+  contentType: string,
+  count: number
+): BatchResponse[] {
+  const boundaryMatch = contentType.match(/boundary="?([^";]+)"?/i);
+  if (!boundaryMatch) {
+    throw new Error(`Batch response has no multipart boundary (${contentType})`);
+  }
+
+  const responses: BatchResponse[] = Array.from({ length: count }, () => ({
+    status: 0,
+    body: undefined,
+  }));
+
+  for (const part of body.split(`--${boundaryMatch[1]}`)) {
+    const idMatch = part.match(/Content-ID:\s*<response-item-(\d+)>/i);
+    const statusMatch = part.match(/HTTP\/[\d.]+\s+(\d{3})/);
+    if (!idMatch || !statusMatch) continue;
+
+    const index = Number(idMatch[1]);
+    if (index >= count) continue;
+
+    // The embedded HTTP response's body follows its own blank line
+    const httpStart = part.indexOf(statusMatch[0]);
+    const bodyStart = part.slice(httpStart).search(/\r?\n\r?\n/);
+    const rawBody =
+      bodyStart === -1 ? "" : part.slice(httpStart + bodyStart).trim();
+
+    let parsed: unknown = rawBody;
+    try {
+      parsed = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      // Keep the raw text for non-JSON bodies
+    }
+
+    responses[index] = { status: Number(statusMatch[1]), body: parsed };
+  }
+
+  return responses;
+}
+
+/**
+ * Sends GET requests to the Gmail batch endpoint in a single HTTP call
+ * @param auth - Authorized OAuth2 client
+ * @param requests - Requests to send (Gmail allows up to 100, 50 is recommended)
+ * @returns Responses in request order
+ */
+export async function sendBatch(
+  auth: OAuth2Client,
+  requests: BatchRequest[]
+): Promise<BatchResponse[]> {
+  const boundary = `batch_${crypto.randomUUID()}`;
+
+  const response = await auth.request<string>({
+    url: BATCH_URL,
+    method: "POST",
+    headers: { "Content-Type": `multipart/mixed; boundary=${boundary}` },
+    data: encodeBatch(requests, boundary),
+    responseType: "text",
+  });
+
+  const contentType = String(response.headers["content-type"] ?? "");
+  return decodeBatch(response.data, contentType, requests.length);
+}
@@ -0,0 +1,122 @@
+// Checkpoint module - lets an interrupted export continue where it stopped
+import { rename } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import type { MailboxActions } from "./actions";
+import type { DuplicateMode } from "./duplicates";
+import type { SavedFilters } from "./filters";
+import type { AttachmentInfo } from "./gmail";
+import type { ManifestFormat } from "./manifest";
+import type { AttachedMessageMode } from "./nested";
+import { toWriteError } from "./zip";
+
+const CHECKPOINT_FILE = "checkpoint.json";
+
+// Options that decide what the export contains; a resumed run reuses them
+export interface CheckpointOptions {
+  query: string;
+  output: string;
+  outputDir?: string;
+  layout: string;
+  duplicates: DuplicateMode;
+  manifest: ManifestFormat;
+  incremental: boolean;
+  statePath: string;
+  attachedMessages: AttachedMessageMode;
+  // Applied again to the files inside attached messages
+  filters: SavedFilters;
+  // Named accounts searched, empty for the default account
+  accounts: string[];
+  // Mailboxes opened with a service account, empty when signed in as a user
+  impersonate: string[];
+  // Mailbox actions run after the export
+  actions: MailboxActions;
+  // Size limit of each ZIP volume, missing for a single archive
+  splitSize?: number;
+}
+
+export interface CompletedDownload {
+  // Name of the spooled file inside the checkpoint directory
+  spoolFile: string;
+  sha256: string;
+  size: number;
+}
+
+export interface Checkpoint {
+  version: 1;
+  createdAt: string;
+  options: CheckpointOptions;
+  // Archive path, fixed at the start because incremental names carry a timestamp
+  zipPath: string;
+  messageIds: string[];
+  // Attachments to download, after filters
+  attachments: AttachmentInfo[];
+  // Attachments left out by filters
+  skipped: AttachmentInfo[];
+  // Finished downloads by index into attachments
+  downloads: Record<string, CompletedDownload>;
+}
+
+/**
+ * Finds the checkpoint directory of an export
+ * It sits next to the output so spooled files can be moved into place
+ * @param output - Requested ZIP path (before any incremental timestamp)
+ * @param outputDir - Output directory, when writing files instead of a ZIP
+ * @returns Directory holding the checkpoint and the spooled downloads
+ */
+export function checkpointDir(output: string, outputDir?: string): string {
+  if (outputDir) {
+    return join(outputDir, ".gmail-attachments-checkpoint");
+  }
+  return join(dirname(output), `.gmail-attachments-checkpoint-${basename(output)}`);
+}
+
+/**
+ * Loads the checkpoint of an interrupted export
+ * @param dir - Checkpoint directory
+ * @returns The checkpoint, or undefined when there is none
+ * @throws Error when the checkpoint exists but cannot be parsed
+ */
+export async function loadCheckpoint(dir: string): Promise<Checkpoint | undefined> {
+  const path = join(dir, CHECKPOINT_FILE);
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    return undefined;
+  }
+
+  let checkpoint: Checkpoint;
+  try {
+    checkpoint = JSON.parse(await file.text()) as Checkpoint;
+  } catch {
+    throw new Error(`Failed to parse ${path}. Delete ${dir} to start over.`);
+  }
+
+  if (
+    checkpoint.version !== 1 ||
+    !Array.isArray(checkpoint.attachments) ||
+    typeof checkpoint.downloads !== "object" ||
+    !checkpoint.downloads
+  ) {
+    throw new Error(`Unsupported checkpoint format in ${path}. Delete ${dir} to start over.`);
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Writes the checkpoint, replacing the previous one in a single rename
+ * so a crash while saving never leaves a truncated file behind
+ * @param checkpoint - Checkpoint to save
+ * @param dir - Checkpoint directory (must exist)
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function saveCheckpoint(checkpoint: Checkpoint, dir: string): Promise<void> {
+  const path = join(dir, CHECKPOINT_FILE);
+  const partialPath = `${path}.partial`;
+  try {
+    await Bun.write(partialPath, JSON.stringify(checkpoint));
+    await rename(partialPath, path);
+  } catch (error) {
+    throw toWriteError(error, path, "checkpoint");
+  }
+}
@@ -0,0 +1,246 @@
+// Config module - default options and named export jobs from a config file
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { QUERY_FLAGS } from "./query";
+
+// Looked up in the project directory first, then in the user's config directory
+export const CONFIG_FILENAME = "gmail-attachments.json";
+const XDG_CONFIG_FILE = join("gmail-attachments", "config.json");
+
+// Options that take a value, named like the long command-line options
+const VALUE_OPTIONS = [
+  "output",
+  "output-dir",
+  "group-by",
+  "layout",
+  "state",
+  "limit",
+  "duplicates",
+  "manifest",
+  "attached-messages",
+  "include-message",
+  "account",
+  "impersonate",
+  "concurrency",
+  "add-label",
+  "split-size",
+  ...QUERY_FLAGS,
+];
+// Options that are switched on with true
+const FLAG_OPTIONS = [
+  "incremental",
+  "all",
+  "manual-auth",
+  "threads",
+  "latest-only",
+  "archive",
+  "mark-read",
+  "trash",
+];
+// Options of the "filters" object
+const FILTER_OPTIONS = [
+  "inline",
+  "mime",
+  "ext",
+  "exclude-ext",
+  "min-size",
+  "max-size",
+  "include",
+  "exclude",
+];
+const ORDERS = ["newest", "oldest"];
+
+export interface Config {
+  // File the config was read from
+  path: string;
+  // Credential and token locations, resolved against the config file's directory
+  credentials?: string;
+  token?: string;
+  tokensDir?: string;
+  // Default options, as command-line arguments
+  defaults: string[];
+  // Jobs by name, as command-line arguments including the query
+  jobs: Map<string, string[]>;
+}
+
+/**
+ * Lists the places a config file is looked for, in order
+ * @param cwd - Project directory
+ * @param env - Environment, for XDG_CONFIG_HOME
+ * @returns gmail-attachments.json in the project, then gmail-attachments/config.json
+ *   in $XDG_CONFIG_HOME (default ~/.config)
+ */
+export function configPaths(
+  cwd: string = process.cwd(),
+  env: Record<string, string | undefined> = process.env
+): string[] {
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return [join(cwd, CONFIG_FILENAME), join(configHome, XDG_CONFIG_FILE)];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionArgs(name: string, value: unknown, context: string): string[] {
+  if (FLAG_OPTIONS.includes(name)) {
+    if (typeof value !== "boolean") {
+      throw new Error(`${context}: "${name}" must be true or false`);
+    }
+    return value ? [`--${name}`] : [];
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (values.some((v) => typeof v !== "string" && typeof v !== "number")) {
+    throw new Error(`${context}: "${name}" must be a string, a number or a list of them`);
+  }
+  return values.flatMap((v) => [`--${name}`, String(v)]);
+}
+
+/**
+ * Turns the options of a job (or the defaults) into command-line arguments
+ * Keys are the long option names, e.g. "output-dir"; filter options go in a
+ * "filters" object, and "order" is "newest" or "oldest"
+ * @param options - Options from the config file
+ * @param context - Where the options are, for error messages
+ * @param allowQuery - Whether a "query" is allowed
+ * @returns Arguments for parseArgs
+ * @throws Error for unknown options and values of the wrong type
+ */
+export function optionsToArgs(
+  options: Record<string, unknown>,
+  context: string,
+  allowQuery = false
+): string[] {
+  const args: string[] = [];
+
+  for (const [name, value] of Object.entries(options)) {
+    if (name === "query" && allowQuery) {
+      if (typeof value !== "string" || !value.trim()) {
+        throw new Error(`${context}: "query" must be a Gmail search query`);
+      }
+      args.unshift(value);
+    } else if (name === "order") {
+      if (!ORDERS.includes(value as string)) {
+        throw new Error(`${context}: "order" must be one of: ${ORDERS.join(", ")}`);
+      }
+      args.push(`--${value}`);
+    } else if (name === "filters") {
+      if (!isObject(value)) {
+        throw new Error(`${context}: "filters" must be an object`);
+      }
+      for (const [filter, filterValue] of Object.entries(value)) {
+        if (!FILTER_OPTIONS.includes(filter)) {
+          throw new Error(`${context}: Unknown filter "${filter}"`);
+        }
+        args.push(...optionArgs(filter, filterValue, context));
+      }
+    } else if (VALUE_OPTIONS.includes(name) || FLAG_OPTIONS.includes(name)) {
+      args.push(...optionArgs(name, value, context));
+    } else {
+      throw new Error(`${context}: Unknown option "${name}"`);
+    }
+  }
+
+  return args;
+}
+
+function pathOption(config: Record<string, unknown>, name: string, dir: string): string | undefined {
+  const value = config[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !value) {
+    throw new Error(`"${name}" must be a path`);
+  }
+  return resolve(dir, value);
+}
+
+/**
+ * Reads a config file
+ * @param content - File content
+ * @param path - Config file, for error messages and relative paths
+ * @returns The config, with defaults and jobs as command-line arguments
+ * @throws Error when the file is not valid JSON or has unknown options
+ */
+export function parseConfig(content: string, path: string): Config {
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${path}: Invalid JSON - ${(error as Error).message}`);
+  }
+  if (!isObject(config)) {
+    throw new Error(`${path}: Expected a JSON object`);
+  }
+
+  const known = ["credentials", "token", "tokens", "defaults", "jobs"];
+  const unknown = Object.keys(config).find((key) => !known.includes(key));
+  if (unknown) {
+    throw new Error(`${path}: Unknown setting "${unknown}"`);
+  }
+
+  const dir = dirname(path);
+  let credentials: string | undefined;
+  let token: string | undefined;
+  let tokensDir: string | undefined;
+  try {
+    credentials = pathOption(config, "credentials", dir);
+    token = pathOption(config, "token", dir);
+    tokensDir = pathOption(config, "tokens", dir);
+  } catch (error) {
+    throw new Error(`${path}: ${(error as Error).message}`);
+  }
+
+  const { defaults = {}, jobs = {} } = config;
+  if (!isObject(defaults)) {
+    throw new Error(`${path}: "defaults" must be an object`);
+  }
+  if (!isObject(jobs)) {
+    throw new Error(`${path}: "jobs" must be an object of named jobs`);
+  }
+
+  const parsedJobs = new Map<string, string[]>();
+  for (const [name, job] of Object.entries(jobs)) {
+    const context = `${path}: job "${name}"`;
+    if (!isObject(job)) {
+      throw new Error(`${context}: Expected an object`);
+    }
+    if (job.query === undefined && !QUERY_FLAGS.some((flag) => flag in job)) {
+      throw new Error(`${context}: "query" is required unless a search option such as "from" is given`);
+    }
+    // Switches have no command-line form to turn them off, so false in a job
+    // cannot undo true in the defaults
+    const overridden = FLAG_OPTIONS.find((flag) => job[flag] === false && defaults[flag] === true);
+    if (overridden) {
+      throw new Error(
+        `${context}: "${overridden}": false cannot switch off "${overridden}" from "defaults"; ` +
+          `set it in the jobs that need it instead`
+      );
+    }
+    parsedJobs.set(name, optionsToArgs(job, context, true));
+  }
+
+  return {
+    path,
+    credentials,
+    token,
+    tokensDir,
+    defaults: optionsToArgs(defaults, `${path}: defaults`),
+    jobs: parsedJobs,
+  };
+}
+
+/**
+ * Loads the first config file found
+ * @param paths - Places to look, see configPaths
+ * @returns The config, or null when there is no config file
+ * @throws Error when the file cannot be read or is invalid
+ */
+export async function loadConfig(paths: string[] = configPaths()): Promise<Config | null> {
+  for (const path of paths) {
+    const file = Bun.file(path);
+    if (await file.exists()) {
+      return parseConfig(await file.text(), path);
+    }
+  }
+  return null;
+}
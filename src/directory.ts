@@ -0,0 +1,126 @@
+// Directory output module
+import {
+  copyFile,
+  exists,
+  lstat,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  symlink,
+  utimes,
+} from "node:fs/promises";
+import { dirname, join, relative, sep } from "node:path";
+import {
+  deduplicateFilenames,
+  toWriteError,
+  type FileEntry,
+  type LinkEntry,
+} from "./zip";
+
+/**
+ * Moves files into a directory tree, creating folders as needed
+ * Automatically handles duplicate filenames
+ * @param files - Array of {filename, sourcePath} objects, filenames relative to outputDir
+ * @param outputDir - The directory to write the files into
+ * @returns The paths of the written files
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function writeFilesToDirectory(
+  files: FileEntry[],
+  outputDir: string
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const file of deduplicateFilenames(files)) {
+    const filePath = join(outputDir, file.filename);
+
+    if (await exists(filePath)) {
+      console.warn(`Warning: Overwriting existing file: ${filePath}`);
+    }
+
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await moveFile(file.sourcePath, filePath);
+      if (file.modifiedAt) {
+        await utimes(filePath, file.modifiedAt, file.modifiedAt);
+      }
+    } catch (error) {
+      throw toWriteError(error, filePath, "file");
+    }
+
+    written.push(filePath);
+  }
+
+  return written;
+}
+
+/**
+ * Creates relative symbolic links in a directory tree, creating folders as needed
+ * Filenames must already be unique; existing files at a link path are replaced
+ * @param links - Array of {filename, target} objects, filenames relative to outputDir
+ * @param outputDir - The directory to create the links in
+ * @returns The paths of the created links
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function writeLinksToDirectory(
+  links: LinkEntry[],
+  outputDir: string
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const link of links) {
+    const linkPath = join(outputDir, link.filename);
+
+    try {
+      // exists() follows links, so a dangling link would go unnoticed
+      if (await lstat(linkPath).catch(() => null)) {
+        console.warn(`Warning: Overwriting existing file: ${linkPath}`);
+        await rm(linkPath, { force: true });
+      }
+      await mkdir(dirname(linkPath), { recursive: true });
+      await symlink(link.target, linkPath);
+    } catch (error) {
+      throw toWriteError(error, linkPath, "link");
+    }
+
+    written.push(linkPath);
+  }
+
+  return written;
+}
+
+/**
+ * Lists the files already in a directory tree
+ * @param outputDir - The directory to look in
+ * @returns Paths relative to outputDir, "/" separated; empty when it does not exist
+ * @throws Error when the directory cannot be read
+ */
+export async function existingFiles(outputDir: string): Promise<Set<string>> {
+  let entries;
+  try {
+    entries = await readdir(outputDir, { recursive: true, withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Set();
+    throw new Error(`Cannot read "${outputDir}": ${(error as Error).message}`);
+  }
+
+  const files = new Set<string>();
+  for (const entry of entries) {
+    if (entry.isDirectory()) continue;
+    const path = relative(outputDir, join(entry.parentPath, entry.name));
+    files.add(path.split(sep).join("/"));
+  }
+  return files;
+}
+
+// Rename when possible, copy when the source is on another filesystem
+async function moveFile(sourcePath: string, targetPath: string): Promise<void> {
+  try {
+    await rename(sourcePath, targetPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await copyFile(sourcePath, targetPath);
+    await rm(sourcePath, { force: true });
+  }
+}
@@ -0,0 +1,149 @@
+// Duplicate content module - stores attachments with identical content once
+import { createHash } from "node:crypto";
+import { posix } from "node:path";
+import type { AttachmentInfo } from "./gmail";
+import { deduplicateFilenames, type FileEntry, type LinkEntry } from "./zip";
+
+// dedupe: store identical content once, keep: store every copy,
+// link: store once and add a symbolic link for every other copy
+export type DuplicateMode = "dedupe" | "keep" | "link";
+
+export const DUPLICATE_MODES: DuplicateMode[] = ["dedupe", "keep", "link"];
+
+export interface HashedFile extends FileEntry {
+  sha256: string;
+  size: number;
+  attachment: AttachmentInfo;
+}
+
+export interface DuplicateSource {
+  messageId: string;
+  threadId?: string;
+  filename: string;
+  from?: string;
+  subject?: string;
+  date?: string;
+}
+
+export interface DuplicateGroup {
+  // Path of the stored copy in the output
+  path: string;
+  sha256: string;
+  size: number;
+  // Every message that contained the content, the stored copy first
+  sources: DuplicateSource[];
+}
+
+// Where a downloaded file ends up in the output
+export interface Placement {
+  file: HashedFile;
+  path: string;
+  // Path of the stored copy when path is a link to it
+  linkTo?: string;
+}
+
+export interface ResolvedFiles {
+  files: FileEntry[];
+  links: LinkEntry[];
+  duplicates: DuplicateGroup[];
+  // One per downloaded file, in input order
+  placements: Placement[];
+}
+
+/**
+ * Hashes attachment content
+ * @param data - Attachment content
+ * @returns Hex encoded SHA-256 digest
+ */
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Decides which files are stored, linked or dropped based on their content hash
+ * The first file with a given hash is stored; returned filenames are unique.
+ * @param files - Downloaded files in output order
+ * @param mode - How to handle files with identical content
+ * @param taken - Names that must not be used, e.g. files already in the output
+ * @returns Files to store, links to create, the groups of duplicates found
+ *   and where each downloaded file ended up
+ */
+export function resolveDuplicates(
+  files: HashedFile[],
+  mode: DuplicateMode,
+  taken: ReadonlySet<string> = new Set()
+): ResolvedFiles {
+  if (mode === "keep") {
+    const named = deduplicateFilenames(files, taken);
+    return {
+      files: named,
+      links: [],
+      duplicates: [],
+      placements: named.map((file) => ({ file, path: file.filename })),
+    };
+  }
+
+  // Links need their own unique names, dropped copies must not use up names
+  const named = mode === "link" ? deduplicateFilenames(files, taken) : files;
+
+  const groups = new Map<string, HashedFile[]>();
+  for (const file of named) {
+    const group = groups.get(file.sha256);
+    if (group) {
+      group.push(file);
+    } else {
+      groups.set(file.sha256, [file]);
+    }
+  }
+
+  const firsts = [...groups.values()].map((group) => group[0]);
+  const stored = mode === "link" ? firsts : deduplicateFilenames(firsts, taken);
+
+  const links: LinkEntry[] = [];
+  const duplicates: DuplicateGroup[] = [];
+  const placements = new Map<HashedFile, Placement>();
+  [...groups.values()].forEach((group, index) => {
+    const path = stored[index].filename;
+    placements.set(group[0], { file: group[0], path });
+
+    if (group.length === 1) return;
+
+    duplicates.push({
+      path,
+      sha256: group[0].sha256,
+      size: group[0].size,
+      sources: group.map(({ attachment }) => toSource(attachment)),
+    });
+
+    for (const copy of group.slice(1)) {
+      if (mode === "link") {
+        links.push({
+          filename: copy.filename,
+          target: posix.relative(posix.dirname(copy.filename), path),
+          modifiedAt: copy.modifiedAt,
+        });
+        placements.set(copy, { file: copy, path: copy.filename, linkTo: path });
+      } else {
+        placements.set(copy, { file: copy, path });
+      }
+    }
+  });
+
+  return {
+    files: stored,
+    links,
+    duplicates,
+    placements: named.map((file) => placements.get(file)!),
+  };
+}
+
+function toSource(att: AttachmentInfo): DuplicateSource {
+  return {
+    messageId: att.messageId,
+    threadId: att.threadId,
+    filename: att.filename,
+    from: att.from,
+    subject: att.subject,
+    date: att.date,
+  };
+}
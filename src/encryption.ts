@@ -0,0 +1,191 @@
+// Encryption module - protects saved tokens with a key derived from a passphrase
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { createInterface } from "node:readline";
+
+// Environment variable holding the passphrase, for unattended runs
+export const PASSPHRASE_ENV = "GMAIL_ATTACHMENTS_PASSPHRASE";
+
+const FORMAT = "gmail-attachments-encrypted";
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+// scrypt cost parameters for new files; older files keep the ones they name
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 };
+
+// Encrypted JSON value; binary fields are base64
+export interface EncryptedData {
+  format: typeof FORMAT;
+  version: 1;
+  kdf: { name: "scrypt"; N: number; r: number; p: number; salt: string };
+  cipher: typeof CIPHER;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Tells encrypted files apart from the plain JSON of older versions
+ * @param value - Parsed file content
+ * @returns True for content written by encryptJson
+ */
+export function isEncrypted(value: unknown): value is EncryptedData {
+  return (value as EncryptedData | null)?.format === FORMAT;
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  { N, r, p }: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; allow twice that
+    scrypt(passphrase, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Encrypts a JSON value with AES-256-GCM under a key derived with scrypt
+ * @param value - Value to encrypt
+ * @param passphrase - Passphrase the key is derived from
+ * @returns Encrypted data, with a fresh salt and IV
+ */
+export async function encryptJson(value: unknown, passphrase: string): Promise<EncryptedData> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(passphrase, salt, SCRYPT_COST);
+
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+
+  return {
+    format: FORMAT,
+    version: 1,
+    kdf: { name: "scrypt", ...SCRYPT_COST, salt: salt.toString("base64") },
+    cipher: CIPHER,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypts a value written by encryptJson
+ * @param encrypted - Encrypted data
+ * @param passphrase - Passphrase used to encrypt it
+ * @returns The decrypted value
+ * @throws Error when the passphrase is wrong or the data was changed
+ */
+export async function decryptJson(encrypted: EncryptedData, passphrase: string): Promise<unknown> {
+  if (encrypted.version !== 1 || encrypted.cipher !== CIPHER || encrypted.kdf?.name !== "scrypt") {
+    throw new Error("Unsupported encryption format");
+  }
+
+  const { N, r, p, salt } = encrypted.kdf;
+  const key = await deriveKey(passphrase, Buffer.from(salt, "base64"), { N, r, p });
+
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(encrypted.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString("utf8"));
+  } catch {
+    // GCM authentication cannot tell a wrong key from changed data
+    throw new Error("Wrong passphrase or damaged data");
+  }
+}
+
+/**
+ * Asks a question on standard error and reads the answer from standard input
+ * Unlike prompt(), nothing is written to standard output, which may carry an inventory
+ * @param question - Text shown before the answer
+ * @returns The answer, or null when input ended or was cancelled with Ctrl-C
+ */
+export function readLine(question: string): Promise<string | null> {
+  const lines = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) => {
+    lines.once("close", () => resolve(null));
+    lines.once("SIGINT", () => lines.close());
+    lines.question(`${question} `, (answer) => {
+      resolve(answer);
+      lines.close();
+    });
+  });
+}
+
+/**
+ * Asks a question on the terminal without echoing the answer
+ * Falls back to readLine() when standard input is not a terminal
+ * @param question - Text shown before the answer
+ * @returns The answer, or null when input ended or was cancelled with Ctrl-C
+ */
+async function readHidden(question: string): Promise<string | null> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return readLine(question);
+  }
+
+  process.stderr.write(`${question} `);
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  return new Promise((resolve) => {
+    let answer = "";
+    const finish = (value: string | null) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+      resolve(value);
+    };
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf8")) {
+        if (char === "\r" || char === "\n") return finish(answer);
+        if (char === "\u0003" || char === "\u0004") return finish(null);
+        if (char === "\u007f" || char === "\b") {
+          answer = answer.slice(0, -1);
+        } else {
+          answer += char;
+        }
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+// Asked at most once per run, so several accounts share it
+let cachedPassphrase: string | undefined;
+
+/**
+ * Gets the passphrase for saved tokens from the environment, or asks for it
+ * @param confirm - Ask twice, when choosing a passphrase for new files
+ * @returns Passphrase
+ * @throws Error when no passphrase is given or the two answers differ
+ */
+export async function getPassphrase(confirm = false): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV];
+  if (fromEnv) return fromEnv;
+  if (cachedPassphrase !== undefined) return cachedPassphrase;
+
+  const passphrase = await readHidden(
+    confirm ? "Passphrase to encrypt saved tokens:" : "Passphrase for saved tokens:"
+  );
+  if (!passphrase) {
+    throw new Error(`A passphrase is required to use saved tokens. Enter one or set ${PASSPHRASE_ENV}.`);
+  }
+  if (confirm && (await readHidden("Repeat the passphrase:")) !== passphrase) {
+    throw new Error("Passphrases do not match.");
+  }
+
+  cachedPassphrase = passphrase;
+  return passphrase;
+}
+
+// Forget the passphrase asked for, used by tests
+export function clearPassphrase(): void {
+  cachedPassphrase = undefined;
+}
@@ -0,0 +1,280 @@
+// Attachment filter module - drops attachments before they are downloaded
+import type { AttachmentInfo } from "./gmail";
+
+// include: inline parts and attachments, exclude: attachments only, only: inline parts only
+export type InlineMode = "include" | "exclude" | "only";
+
+export const INLINE_MODES: InlineMode[] = ["include", "exclude", "only"];
+
+export interface FilterOptions {
+  inline: InlineMode;
+  // MIME types to keep, "image/*" matches a whole family
+  mimeTypes: string[];
+  // Extensions to keep / drop, lower case without the dot
+  extensions: string[];
+  excludeExtensions: string[];
+  minSize?: number;
+  maxSize?: number;
+  // Filename patterns; with include patterns a file must match at least one
+  include: RegExp[];
+  exclude: RegExp[];
+}
+
+// Filter options as stored in JSON, with patterns written as "/source/flags"
+export type SavedFilters = Omit<FilterOptions, "include" | "exclude"> & {
+  include: string[];
+  exclude: string[];
+};
+
+// The option that rejected an attachment, checked in this order
+export type FilterReason =
+  | "inline"
+  | "mime"
+  | "ext"
+  | "exclude-ext"
+  | "min-size"
+  | "max-size"
+  | "include"
+  | "exclude";
+
+export interface FilterResult {
+  kept: AttachmentInfo[];
+  // Number of attachments rejected by each option
+  filtered: Partial<Record<FilterReason, number>>;
+}
+
+const REASON_LABELS: Record<FilterReason, string> = {
+  inline: "excluded by --inline",
+  mime: "not matching --mime",
+  ext: "not matching --ext",
+  "exclude-ext": "excluded by --exclude-ext",
+  "min-size": "smaller than --min-size",
+  "max-size": "larger than --max-size",
+  include: "not matching --include",
+  exclude: "excluded by --exclude",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  K: 1024,
+  M: 1024 * 1024,
+  G: 1024 * 1024 * 1024,
+};
+
+export function emptyFilters(): FilterOptions {
+  return {
+    inline: "include",
+    mimeTypes: [],
+    extensions: [],
+    excludeExtensions: [],
+    include: [],
+    exclude: [],
+  };
+}
+
+/**
+ * Whether any filter is set
+ * @param options - Filter options
+ */
+export function hasFilters(options: FilterOptions): boolean {
+  return (
+    options.inline !== "include" ||
+    options.mimeTypes.length > 0 ||
+    options.extensions.length > 0 ||
+    options.excludeExtensions.length > 0 ||
+    options.minSize !== undefined ||
+    options.maxSize !== undefined ||
+    options.include.length > 0 ||
+    options.exclude.length > 0
+  );
+}
+
+/**
+ * Parses a size with an optional K, M or G suffix (powers of 1024), like Gmail's larger:
+ * @param value - Size such as "500", "10K", "1.5M" or "2GB"
+ * @returns Size in bytes
+ * @throws Error when the value is not a size
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([KMG]?)B?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}" (expected e.g. 500, 10K, 5M or 1G)`);
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2].toUpperCase()]);
+}
+
+/**
+ * Splits a comma separated list of extensions
+ * @param value - Extensions such as "pdf,.DOCX"
+ * @returns Lower case extensions without dots
+ */
+export function parseExtensions(value: string): string[] {
+  return value
+    .split(",")
+    .map((ext) => ext.trim().replace(/^\./, "").toLowerCase())
+    .filter((ext) => ext.length > 0);
+}
+
+/**
+ * Converts a filename glob to a case-insensitive regular expression
+ * Supports * (any characters) and ? (one character)
+ * @param glob - Pattern such as "invoice-*.pdf"
+ * @returns Regular expression matching whole filenames
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Parses a filename pattern: "/regex/flags" is a regular expression, anything else a glob
+ * The g and y flags are dropped: they make test() continue from the last match
+ * @param value - Pattern from the command line
+ * @returns Regular expression to test filenames with
+ * @throws Error when the regular expression is invalid
+ */
+export function parsePattern(value: string): RegExp {
+  const regex = value.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) {
+    return globToRegExp(value);
+  }
+  try {
+    return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+  } catch (error) {
+    throw new Error(`Invalid regular expression ${value}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Converts filter options to plain JSON values
+ * @param options - Filter options
+ * @returns Options with patterns as "/source/flags" strings
+ */
+export function saveFilters(options: FilterOptions): SavedFilters {
+  const toText = (pattern: RegExp) => `/${pattern.source}/${pattern.flags}`;
+  return {
+    ...options,
+    include: options.include.map(toText),
+    exclude: options.exclude.map(toText),
+  };
+}
+
+/**
+ * Restores filter options saved with saveFilters
+ * @param saved - Saved options
+ * @returns Filter options
+ * @throws Error when a saved pattern is invalid
+ */
+export function restoreFilters(saved: SavedFilters): FilterOptions {
+  return {
+    ...saved,
+    include: saved.include.map(parsePattern),
+    exclude: saved.exclude.map(parsePattern),
+  };
+}
+
+function extensionOf(filename: string): string {
+  const lastDotIndex = filename.lastIndexOf(".");
+  return lastDotIndex > 0 ? filename.slice(lastDotIndex + 1).toLowerCase() : "";
+}
+
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  const type = mimeType.toLowerCase();
+  const wanted = pattern.toLowerCase();
+  if (wanted.endsWith("/*")) {
+    return type.startsWith(wanted.slice(0, -1));
+  }
+  return type === wanted;
+}
+
+/**
+ * Finds the first filter that rejects an attachment
+ * @param att - Attachment to check
+ * @param options - Filter options
+ * @returns The rejecting filter, or undefined when the attachment is kept
+ */
+export function filterReason(
+  att: AttachmentInfo,
+  options: FilterOptions
+): FilterReason | undefined {
+  const ext = extensionOf(att.filename);
+
+  if (
+    (options.inline === "exclude" && att.inline) ||
+    (options.inline === "only" && !att.inline)
+  ) {
+    return "inline";
+  }
+  if (
+    options.mimeTypes.length > 0 &&
+    !options.mimeTypes.some((pattern) => matchesMimeType(att.mimeType, pattern))
+  ) {
+    return "mime";
+  }
+  if (options.extensions.length > 0 && !options.extensions.includes(ext)) {
+    return "ext";
+  }
+  if (options.excludeExtensions.includes(ext)) {
+    return "exclude-ext";
+  }
+  if (options.minSize !== undefined && att.size < options.minSize) {
+    return "min-size";
+  }
+  if (options.maxSize !== undefined && att.size > options.maxSize) {
+    return "max-size";
+  }
+  if (
+    options.include.length > 0 &&
+    !options.include.some((pattern) => pattern.test(att.filename))
+  ) {
+    return "include";
+  }
+  if (options.exclude.some((pattern) => pattern.test(att.filename))) {
+    return "exclude";
+  }
+  return undefined;
+}
+
+/**
+ * Splits attachments into those kept by the filters and counts of those dropped
+ * @param attachments - Attachments found in the matching messages
+ * @param options - Filter options
+ * @returns Kept attachments in their original order and counts per reason
+ */
+export function applyFilters(
+  attachments: AttachmentInfo[],
+  options: FilterOptions
+): FilterResult {
+  const kept: AttachmentInfo[] = [];
+  const filtered: Partial<Record<FilterReason, number>> = {};
+
+  for (const att of attachments) {
+    const reason = filterReason(att, options);
+    if (reason) {
+      filtered[reason] = (filtered[reason] ?? 0) + 1;
+    } else {
+      kept.push(att);
+    }
+  }
+
+  return { kept, filtered };
+}
+
+/**
+ * Describes filter counts for the summary, e.g. "3 smaller than --min-size, 1 excluded by --exclude"
+ * @param filtered - Counts per reason
+ * @returns Human readable list, empty when nothing was filtered
+ */
+export function describeFiltered(filtered: Partial<Record<FilterReason, number>>): string {
+  return (Object.keys(REASON_LABELS) as FilterReason[])
+    .filter((reason) => filtered[reason])
+    .map((reason) => `${filtered[reason]} ${REASON_LABELS[reason]}`)
+    .join(", ");
+}
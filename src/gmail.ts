@@ -1,6 +1,9 @@
 // Gmail API operations module
 import { google, gmail_v1 } from "googleapis";
 import type { OAuth2Client } from "google-auth-library";
+import { sendBatch } from "./batch";
+import type { MessageFormat } from "./message";
+import { inlineFilename, isInlinePart } from "./mime";
 
 export interface AttachmentInfo {
   attachmentId: string;
@@ -8,8 +11,34 @@ export interface AttachmentInfo {
   mimeType: string;
   size: number;
   messageId: string;
+  // MIME part ID ("1", "1.2"); unlike attachmentId it is stable between fetches
+  partId?: string;
+  threadId?: string;
+  from?: string;
+  to?: string;
+  subject?: string;
+  // ISO 8601 timestamp from the Date header, falling back to Gmail's internal date
+  date?: string;
+  labelIds?: string[];
+  // Set for parts shown inside the message body, e.g. signature images
+  inline?: boolean;
+  // Content-ID without angle brackets, referenced by the HTML body as cid:...
+  contentId?: string;
+  // Filenames of the attached messages this attachment was found in, outermost first
+  nesting?: string[];
+  // Gmail's estimate of the size of the whole message in bytes
+  messageSize?: number;
+  // Set for the email itself (--include-message) rather than one of its attachments
+  messageFormat?: MessageFormat;
+  // Named account (--account) the message belongs to
+  account?: string;
 }
 
+export type MessageMetadata = Pick<
+  AttachmentInfo,
+  "threadId" | "from" | "to" | "subject" | "date" | "labelIds" | "messageSize"
+>;
+
 export interface AttachmentData {
   filename: string;
   data: Buffer;
@@ -56,38 +85,121 @@ async function withRetry<T>(
   throw new Error(`${context}: Failed after ${maxRetries} attempts - ${lastError?.message}`);
 }
 
+// The signed-in user; service accounts pass the address of the impersonated mailbox
+export const DEFAULT_USER_ID = "me";
+
+export type SearchOrder = "newest" | "oldest";
+
+export interface SearchOptions {
+  // Maximum number of message IDs to return (default: all)
+  limit?: number;
+  // Gmail lists newest first; "oldest" has to page through every result
+  order?: SearchOrder;
+}
+
+// Largest page size accepted by users.messages.list
+const MAX_PAGE_SIZE = 500;
+
+// Page through a list of IDs, newest first as Gmail returns them
+async function listIds(
+  listPage: (
+    pageToken: string | undefined,
+    maxResults: number
+  ) => Promise<{ ids: string[]; nextPageToken?: string | null }>,
+  options: SearchOptions
+): Promise<string[]> {
+  const { limit, order = "newest" } = options;
+  // Only newest-first searches can stop paging early
+  const stopAt = order === "newest" ? limit : undefined;
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const remaining = stopAt === undefined ? MAX_PAGE_SIZE : stopAt - ids.length;
+    const page = await listPage(pageToken, Math.min(remaining, MAX_PAGE_SIZE));
+    ids.push(...page.ids);
+    pageToken = page.nextPageToken ?? undefined;
+  } while (pageToken && (stopAt === undefined || ids.length < stopAt));
+
+  if (order === "oldest") {
+    ids.reverse();
+  }
+
+  return limit === undefined ? ids : ids.slice(0, limit);
+}
+
 // T3.1 - Search messages with pagination
 export async function searchMessages(
   auth: OAuth2Client,
-  query: string
+  query: string,
+  options: SearchOptions = {},
+  userId: string = DEFAULT_USER_ID
 ): Promise<string[]> {
   const gmail = google.gmail({ version: "v1", auth });
-  const messageIds: string[] = [];
-  let pageToken: string | undefined;
 
-  do {
+  return listIds(async (pageToken, maxResults) => {
     const response = await withRetry(
-      () =>
-        gmail.users.messages.list({
-          userId: "me",
-          q: query,
-          pageToken,
-          maxResults: 100,
-        }),
+      () => gmail.users.messages.list({ userId, q: query, pageToken, maxResults }),
       `Searching messages with query "${query}"`
     );
+    return {
+      ids: (response.data.messages || []).flatMap((message) => message.id ?? []),
+      nextPageToken: response.data.nextPageToken,
+    };
+  }, options);
+}
 
-    const messages = response.data.messages || [];
-    for (const message of messages) {
-      if (message.id) {
-        messageIds.push(message.id);
-      }
-    }
+/**
+ * Searches conversations; a thread matches when any of its messages does
+ * @param auth - Authorized client
+ * @param query - Gmail search query
+ * @param options - Limit (in threads) and order, as for searchMessages
+ * @param userId - Mailbox, the signed-in user by default
+ * @returns Thread IDs, by their latest message
+ */
+export async function searchThreads(
+  auth: OAuth2Client,
+  query: string,
+  options: SearchOptions = {},
+  userId: string = DEFAULT_USER_ID
+): Promise<string[]> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  return listIds(async (pageToken, maxResults) => {
+    const response = await withRetry(
+      () => gmail.users.threads.list({ userId, q: query, pageToken, maxResults }),
+      `Searching threads with query "${query}"`
+    );
+    return {
+      ids: (response.data.threads || []).flatMap((thread) => thread.id ?? []),
+      nextPageToken: response.data.nextPageToken,
+    };
+  }, options);
+}
+
+// List the messages of a thread, oldest first, without their content
+export async function getThreadMessageIds(
+  auth: OAuth2Client,
+  threadId: string,
+  userId: string = DEFAULT_USER_ID
+): Promise<string[]> {
+  const gmail = google.gmail({ version: "v1", auth });
 
-    pageToken = response.data.nextPageToken ?? undefined;
-  } while (pageToken);
+  const response = await withRetry(
+    () =>
+      gmail.users.threads.get({
+        userId,
+        id: threadId,
+        format: "minimal",
+        fields: "messages(id,internalDate)",
+      }),
+    `Reading thread ${threadId}`
+  );
 
-  return messageIds;
+  return (response.data.messages || [])
+    .filter((message) => message.id)
+    .sort((a, b) => Number(a.internalDate ?? 0) - Number(b.internalDate ?? 0))
+    .map((message) => message.id!);
 }
 
 // T3.2 - Helper to recursively extract attachments from MIME parts
@@ -101,18 +213,14 @@ function extractAttachments(
 
   for (const part of parts) {
     // Check if this part is an attachment
-    if (part.filename && part.filename.length > 0 && part.body?.attachmentId) {
-      attachments.push({
-        attachmentId: part.body.attachmentId,
-        filename: part.filename,
-        mimeType: part.mimeType || "application/octet-stream",
-        size: part.body.size || 0,
-        messageId,
-      });
+    const attachment = partAttachment(part, messageId);
+    if (attachment) {
+      attachments.push(attachment);
     }
 
-    // Recursively check nested parts (for multipart messages)
-    if (part.parts) {
+    // Recursively check nested parts (for multipart messages); the contents of
+    // an attached message are read from its download instead
+    if (part.parts && !(attachment && part.mimeType === "message/rfc822")) {
       attachments.push(...extractAttachments(part.parts, messageId));
     }
   }
@@ -120,58 +228,257 @@ function extractAttachments(
   return attachments;
 }
 
+// Classify a MIME part as a regular attachment, an inline part or neither
+function partAttachment(
+  part: gmail_v1.Schema$MessagePart,
+  messageId: string
+): AttachmentInfo | undefined {
+  if (!part.body?.attachmentId) return undefined;
+
+  const disposition = getHeader(part.headers, "Content-Disposition")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+  const contentId =
+    getHeader(part.headers, "Content-ID")?.trim().replace(/^<|>$/g, "") || undefined;
+  const mimeType = part.mimeType || "application/octet-stream";
+  const inline = isInlinePart(disposition, contentId);
+  const forwarded = mimeType.toLowerCase() === "message/rfc822";
+
+  // Large message bodies are stored like attachments too; nameless parts are
+  // only kept when they are inline content such as embedded images, or
+  // messages forwarded as attachments
+  if (!part.filename && !forwarded && (!inline || mimeType.startsWith("text/"))) {
+    return undefined;
+  }
+
+  return {
+    attachmentId: part.body.attachmentId,
+    filename:
+      part.filename ||
+      (forwarded
+        ? `message-${part.partId ?? "part"}.eml`
+        : inlineFilename(contentId, part.partId ?? undefined, mimeType)),
+    mimeType,
+    size: part.body.size || 0,
+    messageId,
+    partId: part.partId ?? undefined,
+    inline: inline || undefined,
+    contentId,
+  };
+}
+
+// Look up a header value by name (header names are case-insensitive)
+function getHeader(
+  headers: gmail_v1.Schema$MessagePartHeader[] | undefined,
+  name: string
+): string | undefined {
+  const lowerName = name.toLowerCase();
+  const header = headers?.find((h) => h.name?.toLowerCase() === lowerName);
+  return header?.value ?? undefined;
+}
+
+// Collect the message fields that describe where an attachment came from
+function getMessageMetadata(message: gmail_v1.Schema$Message): MessageMetadata {
+  const headers = message.payload?.headers;
+  const dateHeader = getHeader(headers, "Date");
+  let date = dateHeader ? new Date(dateHeader) : undefined;
+
+  if (!date || isNaN(date.getTime())) {
+    date = message.internalDate ? new Date(Number(message.internalDate)) : undefined;
+  }
+
+  return {
+    threadId: message.threadId ?? undefined,
+    from: getHeader(headers, "From"),
+    to: getHeader(headers, "To"),
+    subject: getHeader(headers, "Subject"),
+    date: date?.toISOString(),
+    labelIds: message.labelIds ?? undefined,
+    messageSize: message.sizeEstimate ?? undefined,
+  };
+}
+
+// Fields of a message part needed to find attachments; body data is left out
+const PART_FIELDS = "partId,filename,mimeType,headers,body(attachmentId,size)";
+// Depth of nested parts requested explicitly; deeper parts are returned in full
+const PART_FIELDS_DEPTH = 6;
+
+function partFields(depth: number): string {
+  if (depth === 0) return "parts";
+  return `parts(${PART_FIELDS},${partFields(depth - 1)})`;
+}
+
+// Field mask for users.messages.get: headers, labels and the part tree only
+export const MESSAGE_FIELDS =
+  "id,threadId,labelIds,internalDate," +
+  `payload(${PART_FIELDS},${partFields(PART_FIELDS_DEPTH)}),sizeEstimate`;
+
+// Number of message lookups grouped into one batch request (Gmail recommends at most 50)
+export const BATCH_SIZE = 50;
+
+// Build the attachment list of a message fetched with format "full"
+function attachmentsFromMessage(
+  message: gmail_v1.Schema$Message,
+  messageId: string
+): AttachmentInfo[] {
+  const metadata = getMessageMetadata(message);
+
+  // Handle single-part messages
+  const single = message.payload && partAttachment(message.payload, messageId);
+  if (single) {
+    return [{ ...single, ...metadata }];
+  }
+
+  // Handle multipart messages
+  return extractAttachments(message.payload?.parts, messageId).map(
+    (attachment) => ({ ...attachment, ...metadata })
+  );
+}
+
 // T3.2 - Get attachment metadata from a message
 export async function getMessageAttachments(
   auth: OAuth2Client,
-  messageId: string
+  messageId: string,
+  userId: string = DEFAULT_USER_ID
 ): Promise<AttachmentInfo[]> {
   const gmail = google.gmail({ version: "v1", auth });
 
   const response = await withRetry(
     () =>
       gmail.users.messages.get({
-        userId: "me",
+        userId,
         id: messageId,
         format: "full",
+        fields: MESSAGE_FIELDS,
       }),
     `Fetching message ${messageId}`
   );
 
-  const message = response.data;
+  return attachmentsFromMessage(response.data, messageId);
+}
 
-  // Handle single-part messages
-  if (message.payload?.body?.attachmentId && message.payload.filename) {
-    return [
-      {
-        attachmentId: message.payload.body.attachmentId,
-        filename: message.payload.filename,
-        mimeType: message.payload.mimeType || "application/octet-stream",
-        size: message.payload.body.size || 0,
-        messageId,
-      },
-    ];
+export interface MessageAttachmentsResult {
+  messageId: string;
+  attachments: AttachmentInfo[];
+  // Set when the message could not be fetched; messages match withRetry's errors
+  error?: Error;
+}
+
+// Turn the status of a failed batch item into the same errors withRetry throws
+function batchItemError(status: number, body: unknown, context: string): Error {
+  const message =
+    (body as { error?: { message?: string } } | undefined)?.error?.message ??
+    `HTTP ${status || "no response"}`;
+
+  if (status === 404) {
+    return new Error(`${context}: Resource not found (may have been deleted)`);
+  }
+  if (status === 400) {
+    return new Error(`${context}: Invalid request - ${message}`);
   }
+  return new Error(`${context}: ${message}`);
+}
 
-  // Handle multipart messages
-  return extractAttachments(message.payload?.parts, messageId);
+// Get attachment metadata for many messages with Gmail batch requests
+// Items that hit rate limits or server errors are retried in a new batch
+export async function batchGetMessageAttachments(
+  auth: OAuth2Client,
+  messageIds: string[],
+  maxRetries = 3,
+  userId: string = DEFAULT_USER_ID
+): Promise<MessageAttachmentsResult[]> {
+  const results = new Map<string, MessageAttachmentsResult>();
+  let pending = messageIds;
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const batch = pending;
+    const responses = await withRetry(
+      () =>
+        sendBatch(
+          auth,
+          batch.map((id) => ({
+            path:
+              `/gmail/v1/users/${encodeURIComponent(userId)}/messages/${encodeURIComponent(id)}` +
+              `?format=full&fields=${encodeURIComponent(MESSAGE_FIELDS)}`,
+          }))
+        ),
+      `Fetching ${batch.length} message(s)`
+    );
+
+    const retry: string[] = [];
+    responses.forEach(({ status, body }, index) => {
+      const messageId = batch[index];
+      const retryable = status === 0 || status === 429 || status >= 500;
+
+      if (status === 200) {
+        results.set(messageId, {
+          messageId,
+          attachments: attachmentsFromMessage(body as gmail_v1.Schema$Message, messageId),
+        });
+      } else if (retryable && attempt < maxRetries - 1) {
+        retry.push(messageId);
+      } else {
+        results.set(messageId, {
+          messageId,
+          attachments: [],
+          error: batchItemError(status, body, `Fetching message ${messageId}`),
+        });
+      }
+    });
+
+    if (retry.length > 0) {
+      const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s
+      console.warn(
+        `Retrying ${retry.length} message(s) in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`
+      );
+      await Bun.sleep(delay);
+    }
+    pending = retry;
+  }
+
+  return messageIds.map((id) => results.get(id)!);
 }
 
 // Export internal functions for testing
-export { extractAttachments, withRetry };
+export { extractAttachments, getHeader, getMessageMetadata, withRetry };
+
+// Map label IDs to display names, used by layouts that reference labels
+export async function getLabelNames(
+  auth: OAuth2Client,
+  userId: string = DEFAULT_USER_ID
+): Promise<Map<string, string>> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  const response = await withRetry(
+    () => gmail.users.labels.list({ userId }),
+    "Listing labels"
+  );
+
+  const names = new Map<string, string>();
+  for (const label of response.data.labels || []) {
+    if (label.id && label.name) {
+      names.set(label.id, label.name);
+    }
+  }
+
+  return names;
+}
 
 // T3.3 - Download a single attachment
 export async function downloadAttachment(
   auth: OAuth2Client,
   messageId: string,
   attachmentId: string,
-  filename: string
+  filename: string,
+  userId: string = DEFAULT_USER_ID
 ): Promise<AttachmentData> {
   const gmail = google.gmail({ version: "v1", auth });
 
   const response = await withRetry(
     () =>
       gmail.users.messages.attachments.get({
-        userId: "me",
+        userId,
         messageId,
         id: attachmentId,
       }),
@@ -191,3 +498,197 @@ export async function downloadAttachment(
     data: buffer,
   };
 }
+
+// Download a whole message in Internet Message Format (an .eml file)
+export async function getRawMessage(
+  auth: OAuth2Client,
+  messageId: string,
+  userId: string = DEFAULT_USER_ID
+): Promise<Buffer> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  const response = await withRetry(
+    () =>
+      gmail.users.messages.get({
+        userId,
+        id: messageId,
+        format: "raw",
+        fields: "raw",
+      }),
+    `Downloading message ${messageId}`
+  );
+
+  const raw = response.data.raw;
+  if (!raw) {
+    throw new Error(`No data in message ${messageId}`);
+  }
+
+  return Buffer.from(raw, "base64url");
+}
+
+// Current history ID of the mailbox, where listHistory starts following changes
+export async function getHistoryId(
+  auth: OAuth2Client,
+  userId: string = DEFAULT_USER_ID
+): Promise<string> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  const response = await withRetry(
+    () => gmail.users.getProfile({ userId }),
+    "Reading the mailbox profile"
+  );
+
+  const historyId = response.data.historyId;
+  if (!historyId) {
+    throw new Error("No history ID in the mailbox profile");
+  }
+  return historyId;
+}
+
+export interface HistoryChanges {
+  // Messages added since the start ID, oldest first
+  messageIds: string[];
+  // History ID to continue from next time
+  historyId: string;
+}
+
+/**
+ * Lists the messages added to the mailbox since a history ID
+ * @param auth - Authorized client
+ * @param startHistoryId - History ID from getHistoryId or an earlier listHistory
+ * @param userId - Mailbox, the signed-in user by default
+ * @returns Added messages, or null when Gmail no longer keeps that history
+ *   (after about a week) and a full search is needed
+ */
+export async function listHistory(
+  auth: OAuth2Client,
+  startHistoryId: string,
+  userId: string = DEFAULT_USER_ID
+): Promise<HistoryChanges | null> {
+  const gmail = google.gmail({ version: "v1", auth });
+  const messageIds: string[] = [];
+  const seen = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  try {
+    do {
+      const response = await withRetry(
+        () =>
+          gmail.users.history.list({
+            userId,
+            startHistoryId,
+            historyTypes: ["messageAdded"],
+            pageToken,
+            maxResults: MAX_PAGE_SIZE,
+          }),
+        `Listing mailbox changes since history ${startHistoryId}`
+      );
+
+      for (const record of response.data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          const id = added.message?.id;
+          if (id && !seen.has(id)) {
+            seen.add(id);
+            messageIds.push(id);
+          }
+        }
+      }
+
+      historyId = response.data.historyId ?? historyId;
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+  } catch (error) {
+    // An expired start ID is answered with 404
+    if ((error as Error).message.includes("Resource not found")) {
+      return null;
+    }
+    throw error;
+  }
+
+  return { messageIds, historyId };
+}
+
+// Messages per users.messages.batchModify request (the API allows 1000)
+const MODIFY_BATCH_SIZE = 1000;
+
+/**
+ * Finds a user label by name, creating it when it does not exist
+ * @param auth - Client authorized with the gmail.modify scope
+ * @param name - Label name; Gmail compares names without case
+ * @param userId - Mailbox, the signed-in user by default
+ * @returns Label ID
+ */
+export async function getOrCreateLabel(
+  auth: OAuth2Client,
+  name: string,
+  userId: string = DEFAULT_USER_ID
+): Promise<string> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  const response = await withRetry(
+    () => gmail.users.labels.list({ userId }),
+    "Listing labels"
+  );
+  const existing = (response.data.labels || []).find(
+    (label) => label.name?.toLowerCase() === name.toLowerCase()
+  );
+  if (existing?.id) {
+    return existing.id;
+  }
+
+  const created = await withRetry(
+    () =>
+      gmail.users.labels.create({
+        userId,
+        requestBody: { name, labelListVisibility: "labelShow", messageListVisibility: "show" },
+      }),
+    `Creating label "${name}"`
+  );
+  if (!created.data.id) {
+    throw new Error(`No ID for the created label "${name}"`);
+  }
+  return created.data.id;
+}
+
+/**
+ * Adds and removes labels of many messages, e.g. UNREAD to mark them read
+ * @param auth - Client authorized with the gmail.modify scope
+ * @param messageIds - Messages to change
+ * @param changes - Label IDs to add and to remove
+ * @param userId - Mailbox, the signed-in user by default
+ */
+export async function modifyMessages(
+  auth: OAuth2Client,
+  messageIds: string[],
+  changes: { addLabelIds?: string[]; removeLabelIds?: string[] },
+  userId: string = DEFAULT_USER_ID
+): Promise<void> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  for (let i = 0; i < messageIds.length; i += MODIFY_BATCH_SIZE) {
+    const ids = messageIds.slice(i, i + MODIFY_BATCH_SIZE);
+    await withRetry(
+      () =>
+        gmail.users.messages.batchModify({
+          userId,
+          requestBody: { ids, ...changes },
+        }),
+      `Changing labels of ${ids.length} message(s)`
+    );
+  }
+}
+
+// Move a message to the trash, where Gmail deletes it after 30 days
+export async function trashMessage(
+  auth: OAuth2Client,
+  messageId: string,
+  userId: string = DEFAULT_USER_ID
+): Promise<void> {
+  const gmail = google.gmail({ version: "v1", auth });
+
+  await withRetry(
+    () => gmail.users.messages.trash({ userId, id: messageId }),
+    `Moving message ${messageId} to the trash`
+  );
+}
@@ -1,12 +1,139 @@
+#!/usr/bin/env bun
 // Gmail Attachments Downloader - Main entry point
-import { authorize } from "./auth";
+import {
+  applyActions,
+  completedMessages,
+  describeActions,
+  hasActions,
+  type MailboxActions,
+  noActions,
+} from "./actions";
+import {
+  authorize,
+  configureAuthPaths,
+  DEFAULT_ACCOUNT,
+  listAccounts,
+  removeAccount,
+  unlockTokens,
+  validateAccountName,
+} from "./auth";
+import { type Config, CONFIG_FILENAME, configPaths, loadConfig } from "./config";
+import { PASSPHRASE_ENV } from "./encryption";
 import {
   type AttachmentInfo,
+  BATCH_SIZE,
+  batchGetMessageAttachments,
+  DEFAULT_USER_ID,
   downloadAttachment,
+  getLabelNames,
   getMessageAttachments,
+  getRawMessage,
+  getThreadMessageIds,
   searchMessages,
+  type SearchOrder,
+  searchThreads,
 } from "./gmail";
-import { createZip, type FileEntry, writeZipToFile } from "./zip";
+import { existingFiles, writeFilesToDirectory, writeLinksToDirectory } from "./directory";
+import {
+  DEFAULT_LAYOUT,
+  GROUP_BY_LAYOUTS,
+  GROUP_BY_VALUES,
+  type GroupBy,
+  layoutUses,
+  parseLayout,
+  renderLayout,
+} from "./layout";
+import {
+  DEFAULT_STATE_PATH,
+  type DownloadState,
+  incrementalOutputPath,
+  isDownloaded,
+  loadState,
+  recordDownload,
+  saveState,
+} from "./state";
+import {
+  DUPLICATE_MODES,
+  type DuplicateMode,
+  type HashedFile,
+  hashContent,
+  resolveDuplicates,
+} from "./duplicates";
+import {
+  applyFilters,
+  describeFiltered,
+  emptyFilters,
+  type FilterOptions,
+  type FilterReason,
+  filterReason,
+  hasFilters,
+  INLINE_MODES,
+  type InlineMode,
+  parseExtensions,
+  parsePattern,
+  parseSize,
+  restoreFilters,
+  saveFilters,
+} from "./filters";
+import {
+  formatInventory,
+  INVENTORY_FORMATS,
+  type InventoryFormat,
+} from "./inventory";
+import {
+  buildManifest,
+  MANIFEST_CSV,
+  MANIFEST_FORMATS,
+  MANIFEST_JSON,
+  type ManifestFormat,
+  manifestCsv,
+  manifestJson,
+} from "./manifest";
+import {
+  ATTACHED_MESSAGE_MODES,
+  type AttachedMessageMode,
+  contentsFolder,
+  expandAttachedMessage,
+  isAttachedMessage,
+} from "./nested";
+import {
+  MESSAGE_FORMATS,
+  type MessageFormat,
+  renderMessage,
+  withMessages,
+} from "./message";
+import { mapWithConcurrency } from "./pool";
+import { latestPerThread, sortByThread } from "./threads";
+import { compileFlags, QUERY_FLAGS, type QueryFlags, requireAttachments } from "./query";
+import { openSpool, type Spool } from "./spool";
+import {
+  createVolumeWriter,
+  createZipWriter,
+  deduplicateFilenames,
+  type VolumeWriter,
+  type ZipWriter,
+} from "./zip";
+import {
+  type Checkpoint,
+  checkpointDir,
+  type CompletedDownload,
+  loadCheckpoint,
+  saveCheckpoint,
+} from "./checkpoint";
+import {
+  DEFAULT_INTERVAL_MS,
+  freePath,
+  loadCursor,
+  parseInterval,
+  pollMailbox,
+  saveCursor,
+  WATCH_STATE_FILE,
+  type WatchCursor,
+} from "./watch";
+import { exists, mkdir, readFile, utimes } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { format } from "node:util";
+import type { OAuth2Client } from "google-auth-library";
 
 const EXIT_SUCCESS = 0;
 const EXIT_USER_ERROR = 1;
@@ -14,19 +141,147 @@ const EXIT_AUTH_ERROR = 2;
 const EXIT_API_ERROR = 3;
 const EXIT_FS_ERROR = 4;
 
+// Default number of messages processed unless --limit or --all is given
 const LIMIT_MESSAGES = 100;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 50;
+// Minimum time between checkpoint saves while downloading
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// Smallest --split-size, so volumes hold more than their ZIP records
+const MIN_SPLIT_SIZE = 1024 * 1024;
+const RESUME_HINT = "Progress was saved; run the same command with --resume to continue.";
+
+// Where status messages go; stderr when stdout carries an inventory
+let status: NodeJS.WriteStream = process.stdout;
+
+function log(...parts: unknown[]): void {
+  status.write(`${format(...parts)}\n`);
+}
+
+// Error raised inside worker callbacks that should end the run with a specific exit code
+class ExitError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number,
+  ) {
+    super(message);
+  }
+}
 
 interface ParsedArgs {
   query: string;
+  // Query operators from --from, --since and the other search flags
+  search: QueryFlags;
   output: string;
+  outputDir?: string;
+  // Size limit of each ZIP volume in bytes, undefined for a single archive
+  splitSize?: number;
+  groupBy?: GroupBy;
+  layout?: string;
+  incremental: boolean;
+  statePath: string;
+  concurrency: number;
+  // Maximum number of messages, undefined for --all
+  limit?: number;
+  order: SearchOrder;
+  duplicates: DuplicateMode;
+  manifest: ManifestFormat;
+  attachedMessages: AttachedMessageMode;
+  // Also export each email with attachments, in this format
+  includeMessage?: MessageFormat;
+  // Named accounts to search, empty for the default account
+  accounts: string[];
+  // Paste the sign-in code instead of receiving it on a local port
+  manualAuth: boolean;
+  // Mailboxes opened with a service account, empty to sign in as a user
+  impersonate: string[];
+  filters: FilterOptions;
+  // List what would be downloaded instead of downloading it
+  dryRun: boolean;
+  format: InventoryFormat;
+  // Continue an interrupted export from its checkpoint
+  resume: boolean;
+  // Search conversations and export every message of the matching ones
+  threads: boolean;
+  // Keep only the latest version of each same-named file in a thread
+  latestOnly: boolean;
+  // Time between mailbox checks of the watch command, in milliseconds
+  interval?: number;
+  // Changes made to messages whose attachments were all exported
+  actions: MailboxActions;
+  // Run destructive actions without asking
+  yes: boolean;
   help: boolean;
+  // Options given in the arguments parsed last, not taken from the defaults
+  given: string[];
 }
 
-function parseArgs(args: string[]): ParsedArgs {
-  const result: ParsedArgs = {
+// Copy of parsed options whose lists can be changed without touching the original
+function copyArgs(args: ParsedArgs): ParsedArgs {
+  const { filters } = args;
+  return {
+    ...args,
+    accounts: [...args.accounts],
+    impersonate: [...args.impersonate],
+    search: { ...args.search },
+    actions: { ...args.actions },
+    given: [...args.given],
+    filters: {
+      ...filters,
+      mimeTypes: [...filters.mimeTypes],
+      extensions: [...filters.extensions],
+      excludeExtensions: [...filters.excludeExtensions],
+      include: [...filters.include],
+      exclude: [...filters.exclude],
+    },
+  };
+}
+
+/**
+ * Parses command-line options
+ * @param args - Arguments after the script name
+ * @param defaults - Options to start from, e.g. from the config file; an option
+ *   given in args replaces their value, lists included
+ * @returns Parsed options; exits with EXIT_USER_ERROR on invalid input
+ */
+function parseArgs(args: string[], defaults?: ParsedArgs): ParsedArgs {
+  const result: ParsedArgs = defaults ? copyArgs(defaults) : {
     query: "",
+    search: {},
     output: "attachments.zip",
+    incremental: false,
+    statePath: DEFAULT_STATE_PATH,
+    concurrency: DEFAULT_CONCURRENCY,
+    limit: LIMIT_MESSAGES,
+    order: "newest",
+    duplicates: "dedupe",
+    manifest: "json",
+    attachedMessages: "both",
+    accounts: [],
+    manualAuth: false,
+    impersonate: [],
+    filters: emptyFilters(),
+    dryRun: false,
+    format: "table",
+    resume: false,
+    threads: false,
+    latestOnly: false,
+    actions: noActions(),
+    yes: false,
     help: false,
+    given: [],
+  };
+  let limitSet = false;
+  let allSet = false;
+  let formatSet = false;
+  // Options given here, which replace the value of conflicting defaults
+  const given = new Set<string>();
+  // The first use of a list option empties the list taken from the defaults
+  const listOf = <T>(option: string, list: T[]): T[] => {
+    if (!given.has(option)) list.length = 0;
+    given.add(option);
+    return list;
   };
 
   let i = 0;
@@ -42,37 +297,512 @@ function parseArgs(args: string[]): ParsedArgs {
         process.exit(EXIT_USER_ERROR);
       }
       result.output = args[i + 1];
+      given.add("output");
+      i += 2;
+    } else if (arg === "-d" || arg === "--output-dir") {
+      if (i + 1 >= args.length) {
+        console.error("Error: -d/--output-dir requires a directory argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.outputDir = args[i + 1];
+      given.add("output-dir");
+      i += 2;
+    } else if (arg === "-g" || arg === "--group-by") {
+      const value = args[i + 1];
+      if (!GROUP_BY_VALUES.includes(value as GroupBy)) {
+        console.error(
+          `Error: -g/--group-by must be one of: ${GROUP_BY_VALUES.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.groupBy = value as GroupBy;
+      given.add("group-by");
+      i += 2;
+    } else if (arg === "-l" || arg === "--layout") {
+      if (i + 1 >= args.length) {
+        console.error("Error: -l/--layout requires a template argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      try {
+        parseLayout(args[i + 1]);
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.layout = args[i + 1];
+      given.add("layout");
+      i += 2;
+    } else if (arg === "--incremental") {
+      result.incremental = true;
+      given.add("incremental");
+      i++;
+    } else if (arg === "--state") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --state requires a filename argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.statePath = args[i + 1];
+      given.add("state");
+      i += 2;
+    } else if (arg === "-c" || arg === "--concurrency") {
+      const value = Number(args[i + 1]);
+      if (!Number.isInteger(value) || value < 1 || value > MAX_CONCURRENCY) {
+        console.error(
+          `Error: -c/--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.concurrency = value;
+      given.add("concurrency");
+      i += 2;
+    } else if (arg === "-n" || arg === "--limit") {
+      const value = Number(args[i + 1]);
+      if (!Number.isInteger(value) || value < 1) {
+        console.error("Error: -n/--limit must be a whole number of at least 1");
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.limit = value;
+      limitSet = true;
+      given.add("limit");
+      i += 2;
+    } else if (arg === "--all") {
+      result.limit = undefined;
+      allSet = true;
+      i++;
+    } else if (arg === "--newest" || arg === "--oldest") {
+      result.order = arg === "--newest" ? "newest" : "oldest";
+      i++;
+    } else if (arg === "--duplicates") {
+      const value = args[i + 1];
+      if (!DUPLICATE_MODES.includes(value as DuplicateMode)) {
+        console.error(
+          `Error: --duplicates must be one of: ${DUPLICATE_MODES.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.duplicates = value as DuplicateMode;
+      given.add("duplicates");
+      i += 2;
+    } else if (arg === "--manifest") {
+      const value = args[i + 1];
+      if (!MANIFEST_FORMATS.includes(value as ManifestFormat)) {
+        console.error(
+          `Error: --manifest must be one of: ${MANIFEST_FORMATS.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.manifest = value as ManifestFormat;
+      given.add("manifest");
+      i += 2;
+    } else if (arg === "--attached-messages") {
+      const value = args[i + 1];
+      if (!ATTACHED_MESSAGE_MODES.includes(value as AttachedMessageMode)) {
+        console.error(
+          `Error: --attached-messages must be one of: ${ATTACHED_MESSAGE_MODES.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.attachedMessages = value as AttachedMessageMode;
+      given.add("attached-messages");
+      i += 2;
+    } else if (arg === "--account") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --account requires an account name argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      const accounts = listOf("account", result.accounts);
+      for (const name of args[i + 1].split(",").map((n) => n.trim()).filter(Boolean)) {
+        try {
+          validateAccountName(name);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(EXIT_USER_ERROR);
+        }
+        if (!accounts.includes(name)) {
+          accounts.push(name);
+        }
+      }
+      i += 2;
+    } else if (arg === "--impersonate") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --impersonate requires an email address argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      const users = listOf("impersonate", result.impersonate);
+      for (const user of args[i + 1].split(",").map((u) => u.trim()).filter(Boolean)) {
+        if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(user)) {
+          console.error(`Error: --impersonate needs email addresses, got "${user}"`);
+          process.exit(EXIT_USER_ERROR);
+        }
+        if (!users.includes(user)) {
+          users.push(user);
+        }
+      }
+      i += 2;
+    } else if (arg === "--manual-auth") {
+      result.manualAuth = true;
+      i++;
+    } else if (arg === "--include-message") {
+      const value = args[i + 1];
+      if (!MESSAGE_FORMATS.includes(value as MessageFormat)) {
+        console.error(
+          `Error: --include-message must be one of: ${MESSAGE_FORMATS.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.includeMessage = value as MessageFormat;
+      i += 2;
+    } else if (arg === "--inline") {
+      const value = args[i + 1];
+      if (!INLINE_MODES.includes(value as InlineMode)) {
+        console.error(`Error: --inline must be one of: ${INLINE_MODES.join(", ")}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.filters.inline = value as InlineMode;
+      i += 2;
+    } else if (arg === "--mime") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --mime requires a MIME type argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      listOf(arg, result.filters.mimeTypes).push(
+        ...args[i + 1].split(",").map((type) => type.trim()).filter(Boolean),
+      );
+      i += 2;
+    } else if (arg === "--ext" || arg === "--exclude-ext") {
+      if (i + 1 >= args.length) {
+        console.error(`Error: ${arg} requires an extension list argument`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      const extensions = parseExtensions(args[i + 1]);
+      if (arg === "--ext") {
+        listOf(arg, result.filters.extensions).push(...extensions);
+      } else {
+        listOf(arg, result.filters.excludeExtensions).push(...extensions);
+      }
+      i += 2;
+    } else if (arg === "--min-size" || arg === "--max-size") {
+      let size = 0;
+      try {
+        size = parseSize(args[i + 1] ?? "");
+      } catch (error) {
+        console.error(`Error: ${arg}: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      if (arg === "--min-size") {
+        result.filters.minSize = size;
+      } else {
+        result.filters.maxSize = size;
+      }
+      i += 2;
+    } else if (arg === "--include" || arg === "--exclude") {
+      if (i + 1 >= args.length) {
+        console.error(`Error: ${arg} requires a pattern argument`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      try {
+        const pattern = parsePattern(args[i + 1]);
+        listOf(
+          arg,
+          arg === "--include" ? result.filters.include : result.filters.exclude,
+        ).push(pattern);
+      } catch (error) {
+        console.error(`Error: ${arg}: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      i += 2;
+    } else if (arg === "--dry-run" || arg === "--list") {
+      result.dryRun = true;
+      i++;
+    } else if (arg === "--resume") {
+      result.resume = true;
+      i++;
+    } else if (arg === "--format") {
+      const value = args[i + 1];
+      if (!INVENTORY_FORMATS.includes(value as InventoryFormat)) {
+        console.error(
+          `Error: --format must be one of: ${INVENTORY_FORMATS.join(", ")}`,
+        );
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.format = value as InventoryFormat;
+      formatSet = true;
+      i += 2;
+    } else if (arg === "--interval") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --interval requires a duration argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      try {
+        result.interval = parseInterval(args[i + 1]);
+      } catch (error) {
+        console.error(`Error: --interval: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      i += 2;
+    } else if (arg === "--split-size") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --split-size requires a size argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      try {
+        result.splitSize = parseSize(args[i + 1]);
+      } catch (error) {
+        console.error(`Error: --split-size: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      if (result.splitSize < MIN_SPLIT_SIZE) {
+        console.error("Error: --split-size must be at least 1M");
+        process.exit(EXIT_USER_ERROR);
+      }
       i += 2;
-    } else if (arg.startsWith("-")) {
+    } else if (arg === "--threads") {
+      result.threads = true;
+      i++;
+    } else if (arg === "--latest-only") {
+      result.latestOnly = true;
+      i++;
+    } else if (arg === "--add-label") {
+      if (i + 1 >= args.length || !args[i + 1].trim()) {
+        console.error("Error: --add-label requires a label name argument");
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.actions.addLabel = args[i + 1].trim();
+      i += 2;
+    } else if (arg === "--archive") {
+      result.actions.archive = true;
+      i++;
+    } else if (arg === "--mark-read") {
+      result.actions.markRead = true;
+      i++;
+    } else if (arg === "--trash") {
+      result.actions.trash = true;
+      i++;
+    } else if (arg === "-y" || arg === "--yes") {
+      result.yes = true;
+      i++;
+    } else if (QUERY_FLAGS.some((name) => arg === `--${name}`)) {
+      const name = arg.slice(2) as keyof QueryFlags;
+      if (i + 1 >= args.length || !args[i + 1].trim()) {
+        console.error(`Error: ${arg} requires a value`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      const value = args[i + 1].trim();
+      try {
+        compileFlags({ [name]: value });
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(EXIT_USER_ERROR);
+      }
+      result.search[name] = value;
+      i += 2;
+    } else if (arg === "--") {
+      // Everything after -- is the query, even when it starts with -
+      result.query = args.slice(i + 1).join(" ");
+      i = args.length;
+    } else if (arg.startsWith("-") && !/[\s:]/.test(arg)) {
       console.error(`Error: Unknown option "${arg}"`);
       process.exit(EXIT_USER_ERROR);
     } else {
-      // Positional argument is the query
+      // Positional argument is the query; one starting with - is told from an
+      // option by the colon or space of its terms, e.g. "-in:spam invoice"
       result.query = arg;
       i++;
     }
   }
 
+  if (limitSet && allSet) {
+    console.error("Error: -n/--limit and --all cannot be combined");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (result.resume && result.dryRun) {
+    console.error("Error: --resume and --dry-run cannot be combined");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (result.latestOnly && !result.threads) {
+    console.error("Error: --latest-only needs --threads");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (formatSet && !result.dryRun) {
+    console.error("Error: --format only applies to --dry-run");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  const { minSize, maxSize } = result.filters;
+  if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+    console.error("Error: --min-size cannot be larger than --max-size");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  // An option given here wins over a conflicting one from the defaults
+  if (given.has("layout") && !given.has("group-by")) result.groupBy = undefined;
+  if (given.has("group-by") && !given.has("layout")) result.layout = undefined;
+  if (given.has("output") && !given.has("output-dir")) result.outputDir = undefined;
+  if (given.has("account") && !given.has("impersonate")) result.impersonate = [];
+  if (given.has("impersonate") && !given.has("account")) result.accounts = [];
+
+  if (result.layout && result.groupBy) {
+    console.error("Error: -l/--layout and -g/--group-by cannot be combined");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (result.impersonate.length > 0 && result.accounts.length > 0) {
+    console.error("Error: --impersonate and --account cannot be combined");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  result.given = [...given];
   return result;
 }
 
+// Explicit layout wins, then --group-by, then one folder per thread in thread mode
+// and one folder per message for directories
+function resolveLayout(args: ParsedArgs): string {
+  if (args.layout) return args.layout;
+  if (args.groupBy) return GROUP_BY_LAYOUTS[args.groupBy];
+  if (args.threads) return GROUP_BY_LAYOUTS.thread;
+  return args.outputDir ? GROUP_BY_LAYOUTS.message : DEFAULT_LAYOUT;
+}
+
 function showHelp(): void {
   console.log(`
 Gmail Attachments Downloader
 
 Usage: bun run src/index.ts <query> [options]
+       bun run src/index.ts accounts list
+       bun run src/index.ts accounts remove <name>
+       bun run src/index.ts run <job> [options]
+       bun run src/index.ts run --all [options]
+       bun run src/index.ts watch <query> -d <dir> [options]
 
 Arguments:
-  <query>              Gmail search query (required)
+  <query>              Gmail search query (required unless search options are given)
+  <job>                Export job from the config file (${CONFIG_FILENAME} in
+                       the project, or ~/.config/gmail-attachments/config.json);
+                       options given here replace the job's
 
 Options:
   -o, --output <file>  Output ZIP filename (default: attachments.zip)
+  -d, --output-dir <dir>
+                       Write attachments as files into a directory instead of a ZIP
+  --split-size <size>  Split the ZIP into volumes of at most size (e.g. 500M),
+                       named attachments.part001.zip, attachments.part002.zip, ...
+  --account <names>    Use named accounts, each with its own sign-in; several
+                       (comma separated or repeated) are exported together,
+                       each into a folder named after the account
+  --impersonate <emails>
+                       Open these Workspace mailboxes with the service account
+                       key in credentials.json (domain-wide delegation);
+                       several are exported like several accounts
+  --manual-auth        Sign in by pasting the address the browser ends on,
+                       for machines where the browser cannot reach this one
+  -g, --group-by <mode>
+                       Put attachments in per-message, per-sender or per-thread
+                       folders (message, sender, thread; default: thread with
+                       --threads, message with --output-dir)
+  -l, --layout <template>
+                       Path of each attachment built from email metadata,
+                       e.g. "{from.domain}/{date:YYYY-MM}/{subject}/{filename}"
+  --incremental        Only download attachments not fetched by earlier
+                       incremental runs; ZIP output gets a timestamped name
+  --state <file>       State file for --incremental
+                       (default: ${DEFAULT_STATE_PATH}); watch keeps
+                       its own in the output directory
+  -n, --limit <n>      Process at most n messages (default: ${LIMIT_MESSAGES})
+  --all                Process every matching message
+  --newest, --oldest   Which messages to keep when limiting (default: newest)
+  --threads            Search conversations and export the attachments of every
+                       message in matching threads, a folder per thread, oldest
+                       first; --limit counts threads
+  --latest-only        With --threads, keep only the latest version of files
+                       sent more than once in a thread (same name)
+  --duplicates <mode>  What to do with attachments whose content is identical:
+                       dedupe (store once), keep (store every copy) or
+                       link (store once, symbolic links for copies)
+                       (default: dedupe)
+  --manifest <format>  Manifest of where each file came from: json, csv,
+                       both or none (default: json)
+  --attached-messages <mode>
+                       Emails forwarded as attachments (.eml): keep (store
+                       as is), extract (store the files inside them) or
+                       both (default: both)
+  --include-message <format>
+                       Also save each email next to its attachments: eml
+                       (original message), txt or html (headers and body)
+  --dry-run, --list    List the attachments that would be downloaded, then stop
+  --format <format>    Output of --dry-run: table, json or csv (default: table)
+  --resume             Continue an interrupted export with the same -o or -d;
+                       starts a new export when there is nothing to resume
+  -c, --concurrency <n>
+                       Number of Gmail requests run in parallel while scanning
+                       and downloading (default: ${DEFAULT_CONCURRENCY})
+  --interval <time>    How often watch checks for new mail, e.g. 30s, 5m
+                       (default: ${DEFAULT_INTERVAL_MS / 1000}s)
   -h, --help           Show this help message
 
+Mailbox actions (after the export, for messages whose attachments were all
+exported; the first use asks to sign in again with permission to change mail):
+  --add-label <name>   Apply this label, creating it when missing
+  --archive            Remove the messages from the inbox
+  --mark-read          Mark the messages read
+  --trash              Move the messages to the trash (asks for confirmation)
+  -y, --yes            Do not ask before moving messages to the trash
+
+Search (added to the query):
+  --from <address>     Messages from this sender
+  --to <address>       Messages to this recipient
+  --subject <text>     Words in the subject
+  --label <name>       Messages with this label
+  --since <when>       Messages newer than a period (30d, 6m, 1y) or since a
+                       date (2024-03-31)
+  --before <when>      Messages older than a period or before a date
+
+Filters (applied to attachments before downloading):
+  --inline <mode>      Inline parts such as signature images: include, exclude
+                       or only (default: include)
+  --mime <types>       Keep only these MIME types, comma separated (image/* allowed)
+  --ext <list>         Keep only these extensions, e.g. pdf,docx
+  --exclude-ext <list> Drop these extensions, e.g. ics,vcf
+  --min-size <size>    Drop attachments smaller than size (e.g. 20K)
+  --max-size <size>    Drop attachments larger than size (e.g. 10M)
+  --include <pattern>  Keep only filenames matching a glob ("invoice-*.pdf")
+                       or a /regex/flags; repeat to allow several patterns
+  --exclude <pattern>  Drop filenames matching a glob or /regex/flags
+
 Examples:
   bun run src/index.ts "from:example@gmail.com has:attachment"
   bun run src/index.ts "has:attachment larger:1M" -o large-files.zip
+  bun run src/index.ts "label:projects" --all --split-size 2G -o projects.zip
   bun run src/index.ts "subject:invoice has:attachment" --output invoices.zip
+  bun run src/index.ts "subject:invoice" --output-dir invoices --group-by sender
+  bun run src/index.ts "has:attachment" --layout "{from.domain}/{date:YYYY-MM}/{filename}"
+  bun run src/index.ts "subject:invoice" --incremental -o invoices.zip
+  bun run src/index.ts "from:reports@company.com" --limit 10 --newest
+  bun run src/index.ts "subject:contract" --output-dir contracts --duplicates link
+  bun run src/index.ts "from:billing@vendor.com" --ext pdf --min-size 20K
+  bun run src/index.ts --from billing@vendor.com --since 30d -d invoices
+  bun run src/index.ts "subject:invoice" --dry-run --format csv > inventory.csv
+  bun run src/index.ts "from:ap@vendor.com" --attached-messages extract --ext pdf
+  bun run src/index.ts "label:contracts" -d archive --include-message eml
+  bun run src/index.ts --resume -o invoices.zip
+  bun run src/index.ts "subject:invoice" --account personal,finance -o invoices.zip
+  bun run src/index.ts "has:attachment" --impersonate alice@example.com,bob@example.com
+  bun run src/index.ts run invoices --dry-run
+  bun run src/index.ts "subject:invoice" -d invoices --add-label Exported --archive
+  bun run src/index.ts "subject:contract" -d contracts --threads --latest-only
+  bun run src/index.ts watch "from:billing@vendor.com" -d invoices --interval 5m
+
+Layout Placeholders:
+  {filename} {name} {ext}      Attachment filename, without and only extension
+  {from} {from.name} {from.domain}
+                               Sender address, display name and domain
+  {to} {to.name} {to.domain}   First recipient address, display name and domain
+  {subject} {messageId} {threadId}
+  {date} {date:YYYY-MM}        Message date (tokens: YYYY MM DD HH mm ss)
+  {label}                      First user label of the message
 
 Query Syntax:
   Gmail search operators work here. Common ones:
@@ -81,6 +811,8 @@ Query Syntax:
   - larger:5M                Attachments larger than 5MB
   - after:2024/01/01         Emails after a date
   - subject:keyword          Emails with keyword in subject
+  The query is checked before searching. A query may start with a negated
+  term, e.g. "-in:chats from:x"; everything after -- is taken as the query
 `);
 }
 
@@ -90,43 +822,64 @@ function formatBytes(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-async function main(): Promise<void> {
-  // Parse arguments
-  const args = parseArgs(process.argv.slice(2));
-
-  // Handle help
-  if (args.help) {
-    showHelp();
-    process.exit(EXIT_SUCCESS);
-  }
-
-  // Validate query is provided
-  if (!args.query) {
+/**
+ * Builds the final search query from the positional query and the search flags
+ * The query is checked locally and has:attachment is added when it is missing
+ * @param args - Parsed options; args.query is replaced with the final query
+ * Exits with EXIT_USER_ERROR when there is no query or it is invalid
+ */
+function prepareQuery(args: ParsedArgs): void {
+  const query = [args.query.trim(), ...compileFlags(args.search)].filter(Boolean).join(" ");
+  if (!query) {
     console.error("Error: Search query is required");
     console.error("Run with --help for usage information");
     process.exit(EXIT_USER_ERROR);
   }
-
-  // Step 1: Authenticate
-  console.log("Authenticating...");
-  let auth;
   try {
-    auth = await authorize();
+    const prepared = requireAttachments(query);
+    for (const warning of prepared.warnings) {
+      log(`Warning: ${warning}`);
+    }
+    if (prepared.added) {
+      log("Warning: missing has:attachment...it will be added");
+    }
+    args.query = prepared.query;
   } catch (error) {
-    console.error("Authentication failed:", (error as Error).message);
-    process.exit(EXIT_AUTH_ERROR);
+    console.error("Invalid search query:", (error as Error).message);
+    process.exit(EXIT_USER_ERROR);
   }
+}
 
+// Steps 2-3: Search, scan the messages and pick the attachments to download
+// Returns no attachments, after saying why, when there is nothing to download;
+// skipped lists the attachments left out by filters or --latest-only
+async function findAttachments(
+  auth: OAuth2Client,
+  args: ParsedArgs,
+  account: string,
+  userId: string,
+): Promise<{
+  messageIds: string[];
+  attachments: AttachmentInfo[];
+  skipped: AttachmentInfo[];
+}> {
   // Step 2: Search messages
-  const hasAttachmentQuery = "has:attachment";
-  if (!args.query.includes(hasAttachmentQuery)) {
-    console.log(`Warning: missing ${hasAttachmentQuery}...it will be added`);
-    args.query += ` ${hasAttachmentQuery}`;
-  }
-  console.log(`Searching for messages matching: "${args.query}"`);
-  let messageIds: string[];
+  // Thread mode searches conversations; --limit then counts threads
+  const unit = args.threads ? "thread" : "message";
+  log(`Searching for ${unit}s matching: "${args.query}"`);
+  let ids: string[];
   try {
-    messageIds = await searchMessages(auth, args.query);
+    const search = args.threads ? searchThreads : searchMessages;
+    // Ask for one extra ID to tell whether the limit cut anything off
+    ids = await search(
+      auth,
+      args.query,
+      {
+        limit: args.limit === undefined ? undefined : args.limit + 1,
+        order: args.order,
+      },
+      userId,
+    );
   } catch (error) {
     const msg = (error as Error).message;
     if (msg.includes("Invalid request")) {
@@ -137,118 +890,1101 @@ async function main(): Promise<void> {
     process.exit(EXIT_API_ERROR);
   }
 
-  if (messageIds.length === 0) {
-    console.log("No messages found matching your query.");
-    process.exit(EXIT_SUCCESS);
+  if (ids.length === 0) {
+    log(`No ${unit}s found matching your query.`);
+    return { messageIds: [], attachments: [], skipped: [] };
+  }
+
+  if (args.limit !== undefined && ids.length > args.limit) {
+    ids = ids.slice(0, args.limit);
+    log(
+      `Warning: More ${unit}s match. Processing the ${args.order} ${args.limit} only; use --limit <n> or --all to change this.`,
+    );
+  }
+
+  let messageIds = ids;
+  if (args.threads) {
+    // Every message of a matching thread is exported, not only those matching
+    try {
+      const perThread = await mapWithConcurrency(ids, args.concurrency, async (threadId) => {
+        try {
+          return await getThreadMessageIds(auth, threadId, userId);
+        } catch (error) {
+          if (!(error as Error).message.includes("not found")) throw error;
+          console.warn(`Warning: Thread ${threadId} was not found (may have been deleted), skipping`);
+          return [];
+        }
+      });
+      messageIds = perThread.flat();
+    } catch (error) {
+      console.error("Failed to read threads:", (error as Error).message);
+      process.exit(EXIT_API_ERROR);
+    }
+    log(`Found ${messageIds.length} message(s) in ${ids.length} thread(s)`);
+  } else {
+    log(`Found ${messageIds.length} message(s)`);
   }
 
-  console.log(`Found ${messageIds.length} message(s)`);
+  // Step 3: Collect attachment metadata, many messages per batch request
+  log("Scanning messages for attachments...");
+  const batches: string[][] = [];
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    batches.push(messageIds.slice(i, i + BATCH_SIZE));
+  }
+  let scanned = 0;
+  let allAttachments: AttachmentInfo[];
 
-  if (messageIds.length > LIMIT_MESSAGES) {
-    console.log(
-      `Warning: Large number of messages found. Auto-limiting at ${LIMIT_MESSAGES} messages.`,
+  try {
+    const perBatch = await mapWithConcurrency(
+      batches,
+      args.concurrency,
+      async (batch) => {
+        const results = await batchGetMessageAttachments(auth, batch, undefined, userId);
+        for (const { messageId, error } of results) {
+          if (!error) continue;
+          if (!error.message.includes("not found") && !error.message.includes("deleted")) {
+            throw new Error(
+              `Failed to get attachments from message ${messageId}: ${error.message}`,
+            );
+          }
+          console.warn(
+            `\nWarning: Message ${messageId} was not found (may have been deleted), skipping`,
+          );
+        }
+        scanned += batch.length;
+        status.write(
+          `\rScanned ${scanned}/${messageIds.length} messages`,
+        );
+        return results.flatMap((result) => result.attachments);
+      },
     );
-    messageIds = messageIds.slice(0, LIMIT_MESSAGES);
+    // The default account is left untagged, so its state keys stay the same
+    allAttachments = perBatch
+      .flat()
+      .map((att) => (account === DEFAULT_ACCOUNT ? att : { ...att, account }));
+  } catch (error) {
+    console.error(`\n${(error as Error).message}`);
+    process.exit(EXIT_API_ERROR);
   }
+  status.write("\n"); // New line after progress
 
-  // Step 3: Collect attachment metadata
-  console.log("Scanning messages for attachments...");
-  const allAttachments: AttachmentInfo[] = [];
+  if (allAttachments.length === 0) {
+    log("No attachments found in matching messages.");
+    return { messageIds, attachments: [], skipped: [] };
+  }
+  const skipped: AttachmentInfo[] = [];
 
-  for (let i = 0; i < messageIds.length; i++) {
-    const messageId = messageIds[i];
+  // Revisions of a file in a conversation follow each other, oldest first
+  if (args.threads) {
+    allAttachments = sortByThread(allAttachments);
+  }
+
+  // Drop unwanted attachments before anything is downloaded; attached messages
+  // are downloaded anyway when their contents are filtered after extraction
+  if (hasFilters(args.filters)) {
+    const expanded = (att: AttachmentInfo) =>
+      args.attachedMessages !== "keep" && isAttachedMessage(att);
+    const { kept: keptFiles, filtered } = applyFilters(
+      allAttachments.filter((att) => !expanded(att)),
+      args.filters,
+    );
+    const keptSet = new Set(keptFiles);
+    const kept = allAttachments.filter((att) => expanded(att) || keptSet.has(att));
+    skipped.push(...allAttachments.filter((att) => !expanded(att) && !keptSet.has(att)));
+    if (skipped.length > 0) {
+      log(
+        `Filtered out ${skipped.length} attachment(s): ${describeFiltered(filtered)}`,
+      );
+    }
+    if (kept.length === 0) {
+      log("No attachments left after filtering.");
+      return { messageIds, attachments: [], skipped: [] };
+    }
+    allAttachments = kept;
+  }
+
+  if (args.latestOnly) {
+    const { kept, dropped } = latestPerThread(allAttachments);
+    if (dropped > 0) {
+      log(`Skipping ${dropped} older version(s) of files sent again later in the same thread`);
+      const keptSet = new Set(kept);
+      skipped.push(...allAttachments.filter((att) => !keptSet.has(att)));
+    }
+    allAttachments = kept;
+  }
+
+  // Incremental runs skip attachments recorded by earlier runs
+  if (args.incremental) {
+    let state: DownloadState;
     try {
-      const attachments = await getMessageAttachments(auth, messageId);
-      allAttachments.push(...attachments);
-      // Progress indicator every 10 messages
-      if ((i + 1) % 10 === 0 || i === messageIds.length - 1) {
-        process.stdout.write(
-          `\rScanned ${i + 1}/${messageIds.length} messages`,
-        );
+      state = await loadState(args.statePath);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+
+    const newAttachments = allAttachments.filter(
+      (att) => !isDownloaded(state, att),
+    );
+    const earlier = allAttachments.length - newAttachments.length;
+    if (earlier > 0) {
+      log(`Skipping ${earlier} attachment(s) downloaded by earlier runs`);
+    }
+    if (newAttachments.length === 0) {
+      log("No new attachments since the last run.");
+      return { messageIds, attachments: [], skipped: [] };
+    }
+    allAttachments.splice(0, allAttachments.length, ...newAttachments);
+  }
+
+  // Emails are exported next to the attachments that are left
+  if (args.includeMessage) {
+    allAttachments = withMessages(allAttachments, args.includeMessage);
+  }
+
+  return { messageIds, attachments: allAttachments, skipped };
+}
+
+// "accounts list" and "accounts remove <name>"
+async function runAccountsCommand(argv: string[]): Promise<never> {
+  const [command = "list", name] = argv;
+
+  if (command === "list") {
+    const accounts = await listAccounts();
+    if (accounts.length === 0) {
+      console.log("No accounts signed in yet; the first search signs in.");
+    }
+    const width = Math.max(0, ...accounts.map((account) => account.name.length));
+    for (const account of accounts) {
+      console.log(`${account.name.padEnd(width)}  ${account.tokenPath}`);
+    }
+    process.exit(EXIT_SUCCESS);
+  }
+
+  if (command === "remove") {
+    if (!name) {
+      console.error("Error: accounts remove requires an account name");
+      process.exit(EXIT_USER_ERROR);
+    }
+    try {
+      validateAccountName(name);
+      if (await removeAccount(name)) {
+        console.log(`Removed the token of account "${name}"; it signs in again on next use`);
+      } else {
+        console.log(`Account "${name}" has no saved token`);
       }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(EXIT_FS_ERROR);
+    }
+    process.exit(EXIT_SUCCESS);
+  }
+
+  console.error(`Error: Unknown accounts command "${command}" (expected list or remove)`);
+  process.exit(EXIT_USER_ERROR);
+}
+
+// "run <job> [options]" and "run --all [options]"
+// Returns the options of one job and the command-line options that change them;
+// --all runs every job in turn, then exits
+async function runJobsCommand(
+  argv: string[],
+  config: Config | null,
+  defaults: ParsedArgs | undefined,
+): Promise<{ job: ParsedArgs; options: string[] }> {
+  const [name, ...options] = argv;
+  if (!config) {
+    console.error(`Error: No config file found (looked for ${configPaths().join(", ")})`);
+    process.exit(EXIT_USER_ERROR);
+  }
+  const names = [...config.jobs.keys()];
+  if (!name || (name.startsWith("-") && name !== "--all")) {
+    console.error("Error: run requires a job name or --all");
+    console.error(`Jobs in ${config.path}: ${names.join(", ") || "none"}`);
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (name !== "--all") {
+    const job = config.jobs.get(name);
+    if (!job) {
+      console.error(`Error: Unknown job "${name}"`);
+      console.error(`Jobs in ${config.path}: ${names.join(", ") || "none"}`);
+      process.exit(EXIT_USER_ERROR);
+    }
+    return { job: parseArgs(job, defaults), options };
+  }
+
+  if (names.length === 0) {
+    console.error(`Error: ${config.path} defines no jobs`);
+    process.exit(EXIT_USER_ERROR);
+  }
+  // Check the options once, before any job runs
+  status = parseArgs(options, defaults).dryRun ? process.stderr : process.stdout;
+
+  // Each job runs in a process of its own; the passphrase is asked once
+  const env = { ...process.env };
+  try {
+    const passphrase = await unlockTokens();
+    if (passphrase) env[PASSPHRASE_ENV] = passphrase;
+  } catch (error) {
+    console.error("Authentication failed:", (error as Error).message);
+    process.exit(EXIT_AUTH_ERROR);
+  }
+
+  const failed: { name: string; code: number }[] = [];
+  for (const job of names) {
+    log(`\nJob ${job}:`);
+    const child = Bun.spawn([process.execPath, Bun.main, "run", job, ...options], {
+      stdio: ["inherit", "inherit", "inherit"],
+      env,
+    });
+    const code = await child.exited;
+    if (code !== EXIT_SUCCESS) {
+      failed.push({ name: job, code });
+    }
+  }
+
+  if (failed.length > 0) {
+    console.error(
+      `\n${failed.length} of ${names.length} job(s) failed: ${failed.map((f) => f.name).join(", ")}`,
+    );
+    process.exit(failed[0].code);
+  }
+  log(`\nAll ${names.length} job(s) done`);
+  process.exit(EXIT_SUCCESS);
+}
+
+// "watch <query> -d <dir> [options]"
+// Downloads the attachments of new matching mail into the directory until stopped;
+// the history cursor and the download state are kept across restarts
+async function runWatchCommand(argv: string[], defaults: ParsedArgs | undefined): Promise<never> {
+  const args = parseArgs(argv, defaults);
+  if (args.help) {
+    showHelp();
+    process.exit(EXIT_SUCCESS);
+  }
+  prepareQuery(args);
+  const outputDir = args.outputDir;
+  if (!outputDir) {
+    console.error("Error: watch requires -d/--output-dir");
+    process.exit(EXIT_USER_ERROR);
+  }
+  if (args.dryRun || args.resume) {
+    console.error(`Error: ${args.dryRun ? "--dry-run" : "--resume"} does not apply to watch`);
+    process.exit(EXIT_USER_ERROR);
+  }
+  if (args.threads) {
+    console.error("Error: --threads does not apply to watch");
+    process.exit(EXIT_USER_ERROR);
+  }
+  if (args.splitSize !== undefined) {
+    console.error("Error: --split-size does not apply to watch");
+    process.exit(EXIT_USER_ERROR);
+  }
+  if (hasActions(args.actions)) {
+    console.error("Error: Mailbox actions do not apply to watch");
+    process.exit(EXIT_USER_ERROR);
+  }
+  // Files are written one at a time as they are, with no archive or manifest
+  for (const [name, flag] of [
+    ["output", "-o/--output"],
+    ["incremental", "--incremental"],
+    ["concurrency", "-c/--concurrency"],
+    ["duplicates", "--duplicates"],
+    ["manifest", "--manifest"],
+    ["attached-messages", "--attached-messages"],
+  ]) {
+    if (args.given.includes(name)) {
+      console.error(`Error: ${flag} does not apply to watch`);
+      process.exit(EXIT_USER_ERROR);
+    }
+  }
+  if (args.accounts.length + args.impersonate.length > 1) {
+    console.error("Error: watch follows one mailbox; start one watch per account");
+    process.exit(EXIT_USER_ERROR);
+  }
+  const interval = args.interval ?? DEFAULT_INTERVAL_MS;
+  // Full searches find every match unless -n is given with the watch; anything
+  // they leave out would be passed by the cursor and never downloaded
+  const limit = args.given.includes("limit") ? args.limit : undefined;
+
+  const impersonated = args.impersonate[0];
+  const account = impersonated ?? args.accounts[0] ?? DEFAULT_ACCOUNT;
+  const userId = impersonated ?? DEFAULT_USER_ID;
+  log("Authenticating...");
+  let auth: OAuth2Client;
+  try {
+    auth = await authorize(account, { manual: args.manualAuth, impersonate: impersonated });
+  } catch (error) {
+    console.error("Authentication failed:", (error as Error).message);
+    process.exit(EXIT_AUTH_ERROR);
+  }
+
+  // Label names are read once; labels created while watching show as their ID
+  const layout = parseLayout(resolveLayout(args));
+  let labelNames: Map<string, string> | undefined;
+  if (layoutUses(layout, "label")) {
+    try {
+      labelNames = await getLabelNames(auth, userId);
+    } catch (error) {
+      console.error("Failed to list labels:", (error as Error).message);
+      process.exit(EXIT_API_ERROR);
+    }
+  }
+
+  // The state keeps a full search (first run, expired history) from downloading
+  // attachments again
+  const statePath = args.given.includes("state")
+    ? args.statePath
+    : join(outputDir, WATCH_STATE_FILE);
+  let cursor: WatchCursor | undefined;
+  let state: DownloadState;
+  try {
+    cursor = await loadCursor(outputDir);
+    state = await loadState(statePath);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(EXIT_FS_ERROR);
+  }
+  if (cursor && cursor.query !== args.query) {
+    log(`The last watch of ${outputDir} followed "${cursor.query}"; starting over`);
+  }
+
+  // Writes one attachment and records it; errors carry the exit code to use
+  const save = async (att: AttachmentInfo): Promise<string | null> => {
+    let data: Buffer;
+    try {
+      data = att.messageFormat
+        ? renderMessage(await getRawMessage(auth, att.messageId, userId), att.messageFormat)
+        : (await downloadAttachment(auth, att.messageId, att.attachmentId, att.filename, userId))
+            .data;
     } catch (error) {
       const msg = (error as Error).message;
       if (msg.includes("not found") || msg.includes("deleted")) {
-        console.warn(
-          `\nWarning: Message ${messageId} was not found (may have been deleted), skipping`,
+        console.warn(`Warning: Attachment ${att.filename} was not found, skipping`);
+        return null;
+      }
+      throw new Error(`Failed to download ${att.filename}: ${msg}`);
+    }
+
+    try {
+      const filePath = join(outputDir, await freePath(outputDir, renderLayout(layout, att, labelNames)));
+      await mkdir(dirname(filePath), { recursive: true });
+      await Bun.write(filePath, data);
+      if (att.date) {
+        await utimes(filePath, new Date(att.date), new Date(att.date));
+      }
+      recordDownload(state, att);
+      await saveState(state, statePath);
+      return filePath;
+    } catch (error) {
+      throw new ExitError((error as Error).message, EXIT_FS_ERROR);
+    }
+  };
+
+  log(`Watching for new messages matching "${args.query}" (Ctrl+C to stop)`);
+  for (;;) {
+    const checkedAt = new Date();
+    try {
+      // Ask for one extra ID to tell whether the limit cut anything off
+      const poll = await pollMailbox(
+        auth,
+        args.query,
+        cursor,
+        { limit: limit === undefined ? undefined : limit + 1, order: args.order },
+        userId,
+      );
+      if (limit !== undefined && poll.messageIds.length > limit) {
+        poll.messageIds = poll.messageIds.slice(0, limit);
+        log(
+          `Warning: More messages match. Processing the ${args.order} ${limit} only; the others will not be downloaded by this watch.`,
+        );
+      }
+      if (poll.full) {
+        log(
+          cursor && cursor.query === args.query
+            ? `Gmail no longer keeps the history since the last check; searching all ${poll.messageIds.length} matching message(s)`
+            : `Found ${poll.messageIds.length} matching message(s)`,
         );
-        continue;
       }
+
+      let written = 0;
+      for (const messageId of poll.messageIds) {
+        let attachments: AttachmentInfo[];
+        try {
+          attachments = await getMessageAttachments(auth, messageId, userId);
+        } catch (error) {
+          const msg = (error as Error).message;
+          if (msg.includes("not found") || msg.includes("deleted")) continue;
+          throw error;
+        }
+        if (account !== DEFAULT_ACCOUNT) {
+          attachments = attachments.map((att) => ({ ...att, account }));
+        }
+        attachments = applyFilters(attachments, args.filters).kept.filter(
+          (att) => !isDownloaded(state, att),
+        );
+        if (args.includeMessage && attachments.length > 0) {
+          attachments = withMessages(attachments, args.includeMessage);
+        }
+        for (const att of attachments) {
+          const filePath = await save(att);
+          if (filePath) {
+            log(`Saved ${filePath}`);
+            written++;
+          }
+        }
+      }
+      if (written > 0 || poll.full) {
+        log(`${checkedAt.toLocaleTimeString()}: ${written} new file(s)`);
+      }
+
+      // Only a fully processed poll moves the cursor; a crash repeats it
+      cursor = {
+        version: 1,
+        query: args.query,
+        historyId: poll.historyId,
+        updatedAt: checkedAt.toISOString(),
+      };
+      await saveCursor(cursor, outputDir).catch((error: Error) => {
+        throw new ExitError(error.message, EXIT_FS_ERROR);
+      });
+    } catch (error) {
+      if (error instanceof ExitError) {
+        console.error(error.message);
+        process.exit(error.exitCode);
+      }
+      // Network and API errors are retried at the next check
+      console.warn(`Warning: ${(error as Error).message}; trying again in ${interval / 1000}s`);
+    }
+
+    await Bun.sleep(interval);
+  }
+}
+
+async function main(): Promise<void> {
+  let argv = process.argv.slice(2);
+
+  // The config file moves credentials and tokens and sets default options
+  let config: Config | null;
+  try {
+    config = await loadConfig();
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(EXIT_USER_ERROR);
+  }
+  if (config) {
+    configureAuthPaths({
+      credentials: config.credentials,
+      token: config.token,
+      tokensDir: config.tokensDir,
+    });
+  }
+  let defaults = config ? parseArgs(config.defaults) : undefined;
+
+  if (argv[0] === "accounts") {
+    await runAccountsCommand(argv.slice(1));
+  }
+  if (argv[0] === "run") {
+    ({ job: defaults, options: argv } = await runJobsCommand(argv.slice(1), config, defaults));
+  }
+  if (argv[0] === "watch") {
+    await runWatchCommand(argv.slice(1), defaults);
+  }
+
+  // Parse arguments; the command line wins over the job, the job over the defaults
+  const args = parseArgs(argv, defaults);
+
+  // Handle help
+  if (args.help) {
+    showHelp();
+    process.exit(EXIT_SUCCESS);
+  }
+
+  if (args.interval !== undefined) {
+    console.error("Error: --interval only applies to watch");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  if (args.splitSize !== undefined && args.outputDir) {
+    console.error("Error: --split-size only applies to ZIP output, not -d/--output-dir");
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  // Inventories go to stdout, so status messages move to stderr when listing
+  status = args.dryRun ? process.stderr : process.stdout;
+
+  // An interrupted export is continued with --resume, never silently replaced
+  const resumeDir = checkpointDir(args.output, args.outputDir);
+  let checkpoint: Checkpoint | undefined;
+  if (!args.dryRun) {
+    try {
+      checkpoint = await loadCheckpoint(resumeDir);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+    if (checkpoint && !args.resume) {
+      console.error(`Error: Found an interrupted export in ${resumeDir}`);
+      console.error("Run again with --resume to continue it, or delete that folder to start over");
+      process.exit(EXIT_USER_ERROR);
+    }
+    if (!checkpoint && args.resume) {
+      log("No interrupted export found, starting a new one");
+    }
+  }
+  if (checkpoint) {
+    // A resumed export keeps the query and options it was started with
+    const { filters, ...options } = checkpoint.options;
+    Object.assign(args, options);
+    try {
+      args.filters = restoreFilters(filters);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+  } else {
+    prepareQuery(args);
+  }
+
+  // Step 1: Authenticate every account before anything is downloaded
+  // Impersonated mailboxes act as accounts named after their address
+  const impersonating = args.impersonate.length > 0;
+  const accounts = impersonating
+    ? args.impersonate
+    : args.accounts.length > 0
+      ? args.accounts
+      : [DEFAULT_ACCOUNT];
+  const userIdFor = (account: string): string =>
+    impersonating ? account : DEFAULT_USER_ID;
+  log("Authenticating...");
+  const auths = new Map<string, OAuth2Client>();
+  for (const account of accounts) {
+    try {
+      auths.set(
+        account,
+        await authorize(account, {
+          manual: args.manualAuth,
+          impersonate: impersonating ? account : undefined,
+          modify: hasActions(args.actions) && !args.dryRun,
+        }),
+      );
+    } catch (error) {
       console.error(
-        `\nFailed to get attachments from message ${messageId}:`,
-        msg,
+        accounts.length > 1
+          ? `Authentication failed for account "${account}":`
+          : "Authentication failed:",
+        (error as Error).message,
       );
-      process.exit(EXIT_API_ERROR);
+      process.exit(EXIT_AUTH_ERROR);
     }
   }
-  console.log(); // New line after progress
+  const authFor = (att: AttachmentInfo): OAuth2Client =>
+    auths.get(att.account ?? DEFAULT_ACCOUNT)!;
+  const userIdOf = (att: AttachmentInfo): string =>
+    userIdFor(att.account ?? DEFAULT_ACCOUNT);
 
-  if (allAttachments.length === 0) {
-    console.log("No attachments found in matching messages.");
-    process.exit(EXIT_SUCCESS);
+  let messageIds: string[] = [];
+  let allAttachments: AttachmentInfo[] = [];
+  // Left out by filters; the messages they belong to are kept out of mailbox actions
+  let filteredOut: AttachmentInfo[] = [];
+  if (checkpoint) {
+    ({ messageIds, attachments: allAttachments } = checkpoint);
+    filteredOut = checkpoint.skipped;
+    log(
+      `Resuming export of "${args.query}": ${
+        Object.keys(checkpoint.downloads).length
+      } of ${allAttachments.length} attachment(s) already downloaded`,
+    );
+  } else {
+    for (const account of accounts) {
+      if (accounts.length > 1) {
+        log(`\nAccount ${account}:`);
+      }
+      const found = await findAttachments(
+        auths.get(account)!,
+        args,
+        account,
+        userIdFor(account),
+      );
+      messageIds.push(...found.messageIds);
+      allAttachments.push(...found.attachments);
+      filteredOut.push(...found.skipped);
+    }
+    if (allAttachments.length === 0) {
+      process.exit(EXIT_SUCCESS);
+    }
   }
 
   const totalSize = allAttachments.reduce((sum, a) => sum + a.size, 0);
-  console.log(
+  log(
     `Found ${allAttachments.length} attachment(s) (${formatBytes(totalSize)
     } total)`,
   );
 
-  // Step 4: Download attachments
-  console.log("Downloading attachments...");
-  const files: FileEntry[] = [];
+  // Resolve label names only when the layout needs them; label IDs are per account
+  const layout = parseLayout(resolveLayout(args));
+  const labelNames = new Map<string, Map<string, string>>();
+  if (layoutUses(layout, "label")) {
+    try {
+      for (const [account, auth] of auths) {
+        labelNames.set(account, await getLabelNames(auth, userIdFor(account)));
+      }
+    } catch (error) {
+      console.error("Failed to list labels:", (error as Error).message);
+      process.exit(EXIT_API_ERROR);
+    }
+  }
 
-  for (let i = 0; i < allAttachments.length; i++) {
-    const att = allAttachments[i];
-    process.stdout.write(
-      `\rDownloading [${i + 1}/${allAttachments.length}]: ${att.filename}`,
-    );
-    // Clear the rest of the line (for shorter filenames after longer ones)
-    process.stdout.write("\x1b[K");
+  // With several accounts, each account's files go into a folder of its own
+  const outputPath = (att: AttachmentInfo): string => {
+    const account = att.account ?? DEFAULT_ACCOUNT;
+    const path = renderLayout(layout, att, labelNames.get(account));
+    return accounts.length > 1 ? `${account}/${path}` : path;
+  };
 
+  // Incremental runs add to the same folder, so new files never replace earlier ones
+  let taken = new Set<string>();
+  if (args.incremental && args.outputDir) {
     try {
-      const file = await downloadAttachment(
-        auth,
-        att.messageId,
-        att.attachmentId,
-        att.filename,
-      );
-      files.push(file);
+      taken = await existingFiles(args.outputDir);
     } catch (error) {
-      const msg = (error as Error).message;
-      if (msg.includes("not found") || msg.includes("deleted")) {
-        console.warn(
-          `\nWarning: Attachment ${att.filename} was not found, skipping`,
-        );
-        continue;
-      }
-      console.error(`\nFailed to download ${att.filename}:`, msg);
-      process.exit(EXIT_API_ERROR);
+      console.error((error as Error).message);
+      process.exit(EXIT_FS_ERROR);
     }
   }
-  console.log(); // New line after progress
 
-  // Step 5: Create ZIP
-  console.log("Creating ZIP archive...");
-  const zipBuffer = await createZip(files);
+  // Dry run: list what would be downloaded, with the names the files would get
+  if (args.dryRun) {
+    if (hasActions(args.actions)) {
+      log(`Mailbox actions (${describeActions(args.actions)}) are not run in a dry run`);
+    }
+    const paths = deduplicateFilenames(
+      allAttachments.map((att) => ({
+        filename: outputPath(att),
+      })),
+      taken,
+    );
+    const items = allAttachments.map((attachment, index) => ({
+      path: paths[index].filename,
+      attachment,
+    }));
+    process.stdout.write(formatInventory(items, args.format, formatBytes));
+    process.exit(EXIT_SUCCESS);
+  }
 
-  // Step 6: Write ZIP to disk
+  // Incremental runs write every delta to a new archive
+  const zipPath =
+    checkpoint?.zipPath ??
+    (args.incremental ? incrementalOutputPath(args.output) : args.output);
+
+  // Downloads are spooled next to the output together with the checkpoint,
+  // so memory use does not grow with the export and a crash loses no data
+  let spool: Spool;
   try {
-    const outputPath = await writeZipToFile(zipBuffer, args.output);
-    console.log(
-      `\nCreated ${outputPath} with ${files.length} file(s) (${formatBytes(zipBuffer.length)
-      })`,
-    );
+    spool = await openSpool(resumeDir);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(EXIT_FS_ERROR);
+  }
+
+  const progress: Checkpoint = checkpoint ?? {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    options: {
+      query: args.query,
+      output: args.output,
+      outputDir: args.outputDir,
+      layout: resolveLayout(args),
+      duplicates: args.duplicates,
+      manifest: args.manifest,
+      incremental: args.incremental,
+      statePath: args.statePath,
+      attachedMessages: args.attachedMessages,
+      filters: saveFilters(args.filters),
+      accounts: args.accounts,
+      impersonate: args.impersonate,
+      actions: args.actions,
+      splitSize: args.splitSize,
+    },
+    zipPath,
+    messageIds,
+    attachments: allAttachments,
+    skipped: filteredOut,
+    downloads: {},
+  };
+
+  // Saves are chained so they never overlap, and throttled for large exports
+  let saving: Promise<void> = Promise.resolve();
+  let lastSave = 0;
+  const saveProgress = (force = false): Promise<void> => {
+    if (force || Date.now() - lastSave >= CHECKPOINT_INTERVAL_MS) {
+      lastSave = Date.now();
+      saving = saving
+        .then(() => saveCheckpoint(progress, spool.dir))
+        .catch((error: Error) => {
+          throw new ExitError(error.message, EXIT_FS_ERROR);
+        });
+    }
+    return saving;
+  };
+
+  // Downloads finished before an interruption are reused if their files survived
+  const completed = new Map<number, CompletedDownload>();
+  // Content already in the spool, so identical downloads are written once
+  const spooled = new Map<string, string>();
+  const spoolContent = async (data: Buffer, sha256: string): Promise<string> => {
+    let sourcePath = args.duplicates === "keep" ? undefined : spooled.get(sha256);
+    if (!sourcePath) {
+      sourcePath = await spool.write(data);
+      spooled.set(sha256, sourcePath);
+    }
+    return sourcePath;
+  };
+  for (const [index, download] of Object.entries(progress.downloads)) {
+    const sourcePath = join(spool.dir, download.spoolFile);
+    if (await exists(sourcePath)) {
+      completed.set(Number(index), download);
+      spooled.set(download.sha256, sourcePath);
+    } else {
+      delete progress.downloads[index];
+    }
+  }
+
+  try {
+    await saveProgress(true);
   } catch (error) {
-    console.error("Failed to write ZIP file:", (error as Error).message);
+    console.error((error as Error).message);
     process.exit(EXIT_FS_ERROR);
   }
 
+  // Step 4: Download attachments, in parallel but kept in search order
+  log("Downloading attachments...");
+  let downloaded = 0;
+  // Attachments that could not be downloaded; their messages are left unchanged
+  const missing: AttachmentInfo[] = [];
+  let files: HashedFile[];
+
+  try {
+    const results = await mapWithConcurrency(
+      allAttachments,
+      args.concurrency,
+      async (att, index): Promise<HashedFile | null> => {
+        let download = completed.get(index);
+        if (!download) {
+          let file;
+          try {
+            file = att.messageFormat
+              ? {
+                  filename: att.filename,
+                  data: renderMessage(
+                    await getRawMessage(authFor(att), att.messageId, userIdOf(att)),
+                    att.messageFormat,
+                  ),
+                }
+              : await downloadAttachment(
+                  authFor(att),
+                  att.messageId,
+                  att.attachmentId,
+                  att.filename,
+                  userIdOf(att),
+                );
+          } catch (error) {
+            const msg = (error as Error).message;
+            if (msg.includes("not found") || msg.includes("deleted")) {
+              console.warn(
+                `\nWarning: Attachment ${att.filename} was not found, skipping`,
+              );
+              missing.push(att);
+              return null;
+            }
+            throw new Error(`Failed to download ${att.filename}: ${msg}`);
+          }
+
+          const sha256 = hashContent(file.data);
+          try {
+            const sourcePath = await spoolContent(file.data, sha256);
+            download = {
+              spoolFile: basename(sourcePath),
+              sha256,
+              size: file.data.length,
+            };
+            progress.downloads[index] = download;
+            await saveProgress();
+          } catch (error) {
+            throw new ExitError((error as Error).message, EXIT_FS_ERROR);
+          }
+        }
+
+        downloaded++;
+        status.write(
+          `\rDownloading [${downloaded}/${allAttachments.length}]: ${att.filename}`,
+        );
+        // Clear the rest of the line (for shorter filenames after longer ones)
+        status.write("\x1b[K");
+        return {
+          filename: outputPath(att),
+          sourcePath: join(spool.dir, download.spoolFile),
+          modifiedAt: att.date ? new Date(att.date) : undefined,
+          sha256: download.sha256,
+          size: download.size,
+          attachment: att,
+        };
+      },
+    );
+    files = results.filter((entry): entry is HashedFile => entry !== null);
+    await saveProgress(true);
+  } catch (error) {
+    console.error(`\n${(error as Error).message}`);
+    await saveProgress(true).catch(() => {});
+    console.error(RESUME_HINT);
+    process.exit(error instanceof ExitError ? error.exitCode : EXIT_API_ERROR);
+  }
+  status.write("\n"); // New line after progress
+
+  // Files inside attached messages are read from the spooled .eml files and put
+  // in a folder named after the message; the manifest records the nesting
+  let exported = files;
+  if (args.attachedMessages !== "keep") {
+    exported = [];
+    let messages = 0;
+    let found = 0;
+    const filtered: Partial<Record<FilterReason, number>> = {};
+    const keepMessage = (att: AttachmentInfo) =>
+      args.attachedMessages === "both" && !filterReason(att, args.filters);
+
+    try {
+      for (const file of files) {
+        // An exported email (--include-message eml) is not an attached message
+        if (!isAttachedMessage(file.attachment) || file.attachment.messageFormat) {
+          exported.push(file);
+          continue;
+        }
+        if (keepMessage(file.attachment)) {
+          exported.push(file);
+        }
+
+        messages++;
+        const folder = contentsFolder(file.filename);
+        const nested = expandAttachedMessage(
+          file.attachment,
+          await readFile(file.sourcePath),
+        );
+        for (const { attachment, data, path } of nested) {
+          if (isAttachedMessage(attachment)) {
+            if (!keepMessage(attachment)) continue;
+          } else {
+            found++;
+            const reason = filterReason(attachment, args.filters);
+            if (reason) {
+              filtered[reason] = (filtered[reason] ?? 0) + 1;
+              // Only a kept copy of the attached message still holds the file
+              if (!keepMessage(file.attachment)) filteredOut.push(file.attachment);
+              continue;
+            }
+          }
+
+          const sha256 = hashContent(data);
+          exported.push({
+            filename: `${folder}/${path}`,
+            sourcePath: await spoolContent(data, sha256),
+            modifiedAt: file.modifiedAt,
+            sha256,
+            size: data.length,
+            attachment,
+          });
+        }
+      }
+    } catch (error) {
+      console.error(
+        "Failed to extract attached messages:",
+        (error as Error).message,
+      );
+      console.error(RESUME_HINT);
+      process.exit(EXIT_FS_ERROR);
+    }
+
+    if (messages > 0) {
+      log(`Found ${found} attachment(s) inside ${messages} attached message(s)`);
+    }
+    const skipped = Object.values(filtered).reduce((sum, count) => sum + count, 0);
+    if (skipped > 0) {
+      log(
+        `Filtered out ${skipped} attachment(s) inside attached messages: ${describeFiltered(filtered)}`,
+      );
+    }
+  }
+
+  // Identical content is stored once; the manifest says which messages shared it
+  const {
+    files: outputFiles,
+    links,
+    duplicates,
+    placements,
+  } = resolveDuplicates(exported, args.duplicates, taken);
+  if (duplicates.length > 0) {
+    const copies = exported.length - outputFiles.length;
+    log(
+      `Found ${copies} duplicate attachment(s) of ${duplicates.length} file(s); ${
+        args.duplicates === "link" ? "linking" : "storing"
+      } each file once`,
+    );
+  }
+
+  // The manifest records which email every file came from
+  if (args.manifest !== "none") {
+    const manifest = buildManifest(placements, duplicates, args.query);
+    const contents: [string, string][] = [];
+    if (args.manifest !== "csv") {
+      contents.push([MANIFEST_JSON, manifestJson(manifest)]);
+    }
+    if (args.manifest !== "json") {
+      contents.push([MANIFEST_CSV, manifestCsv(manifest)]);
+    }
+
+    // A folder written to again keeps the manifests of earlier runs, so this
+    // run's manifest gets a timestamped name like incremental archives
+    const now = new Date();
+    try {
+      for (const [manifestName, content] of contents) {
+        const name =
+          args.outputDir && (await exists(join(args.outputDir, manifestName)))
+            ? incrementalOutputPath(manifestName, now)
+            : manifestName;
+        // A manifest must not clash with an attachment of the same name
+        const [{ filename }] = deduplicateFilenames([
+          ...outputFiles,
+          ...links,
+          { filename: name },
+        ]).slice(-1);
+        outputFiles.push({
+          filename,
+          sourcePath: await spool.write(Buffer.from(content)),
+        });
+      }
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+  }
+
+  // Step 5 (directory output): Move files straight into place
+  if (args.outputDir) {
+    try {
+      const written = await writeFilesToDirectory(outputFiles, args.outputDir);
+      const linked = await writeLinksToDirectory(links, args.outputDir);
+      log(
+        `\nWrote ${written.length} file(s)${
+          linked.length > 0 ? ` and ${linked.length} link(s)` : ""
+        } to ${args.outputDir}`,
+      );
+    } catch (error) {
+      console.error("Failed to write files:", (error as Error).message);
+      console.error(RESUME_HINT);
+      process.exit(EXIT_FS_ERROR);
+    }
+  } else {
+    // Step 5: Stream spooled files into the ZIP, or into volumes of --split-size
+    log(args.splitSize === undefined ? "Creating ZIP archive..." : "Creating ZIP volumes...");
+    let writer: ZipWriter | VolumeWriter;
+    try {
+      writer =
+        args.splitSize === undefined
+          ? await createZipWriter(zipPath)
+          : await createVolumeWriter(zipPath, args.splitSize);
+    } catch (error) {
+      console.error("Failed to write ZIP file:", (error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+
+    try {
+      for (const file of deduplicateFilenames(outputFiles)) {
+        await writer.addFile(file.filename, file.sourcePath, file.modifiedAt);
+      }
+      for (const link of links) {
+        await writer.addSymlink(link.filename, link.target, link.modifiedAt);
+      }
+      const closed = await writer.close();
+      const contents = `${outputFiles.length} file(s)${
+        links.length > 0 ? ` and ${links.length} link(s)` : ""
+      }`;
+      if (typeof closed === "number") {
+        log(`\nCreated ${zipPath} with ${contents} (${formatBytes(closed)})`);
+      } else {
+        log(`\nCreated ${closed.length} volume(s) with ${contents}:`);
+        for (const volume of closed) {
+          log(`  ${volume.path}: ${volume.entries} file(s) (${formatBytes(volume.size)})`);
+          if (volume.size > args.splitSize!) {
+            log(`  Warning: ${volume.path} holds a single file larger than --split-size`);
+          }
+        }
+      }
+    } catch (error) {
+      await writer.abort();
+      console.error("Failed to write ZIP file:", (error as Error).message);
+      console.error(RESUME_HINT);
+      process.exit(EXIT_FS_ERROR);
+    }
+  }
+
+  // Step 6: Remember what was downloaded, only once the output is safely written
+  if (args.incremental) {
+    try {
+      const state = await loadState(args.statePath);
+      for (const file of files) {
+        recordDownload(state, file.attachment);
+      }
+      await saveState(state, args.statePath);
+    } catch (error) {
+      console.error("Failed to save download state:", (error as Error).message);
+      process.exit(EXIT_FS_ERROR);
+    }
+  }
+
+  // The export is complete, so the checkpoint and its spooled files can go
+  await spool.cleanup();
+
+  // Step 7: Tidy up the mailbox, only for messages whose attachments were all exported
+  if (hasActions(args.actions)) {
+    const downloaded = files.map((file) => file.attachment);
+    const countOf = (messages: Map<string, string[]>) =>
+      [...messages.values()].reduce((sum, ids) => sum + ids.length, 0);
+    const messages = completedMessages(downloaded, [...missing, ...filteredOut]);
+    const count = countOf(messages);
+    const partial = countOf(completedMessages(downloaded, missing)) - count;
+    if (partial > 0) {
+      log(
+        `Leaving ${partial} message(s) unchanged: some of their attachments were filtered out`,
+      );
+    }
+    if (count === 0) {
+      process.exit(EXIT_SUCCESS);
+    }
+    if (
+      args.actions.trash &&
+      !args.yes &&
+      !confirm(`Move ${count} exported message(s) to the trash?`)
+    ) {
+      log("Left the mailbox unchanged; use --yes to confirm in advance");
+      process.exit(EXIT_SUCCESS);
+    }
+
+    try {
+      for (const [account, ids] of messages) {
+        await applyActions(auths.get(account)!, ids, args.actions, userIdFor(account));
+      }
+    } catch (error) {
+      console.error("Mailbox actions failed:", (error as Error).message);
+      process.exit(EXIT_API_ERROR);
+    }
+    log(`Mailbox actions (${describeActions(args.actions)}) done for ${count} message(s)`);
+  }
+
   process.exit(EXIT_SUCCESS);
 }
 
 // Export functions for testing
-export { parseArgs, formatBytes };
+export { parseArgs, formatBytes, resolveLayout };
 
 // Run main only when executed directly (not when imported for testing)
 if (import.meta.main) {
@@ -0,0 +1,134 @@
+// Inventory module - lists attachments without downloading them
+import type { AttachmentInfo } from "./gmail";
+import { formatDate } from "./layout";
+
+export type InventoryFormat = "table" | "json" | "csv";
+
+export const INVENTORY_FORMATS: InventoryFormat[] = ["table", "json", "csv"];
+
+export interface InventoryItem {
+  // Path the attachment would get in the archive or output directory
+  path: string;
+  attachment: AttachmentInfo;
+}
+
+const CSV_COLUMNS = [
+  "path",
+  "filename",
+  "size",
+  "mimeType",
+  "inline",
+  "messageId",
+  "threadId",
+  "date",
+  "from",
+  "to",
+  "subject",
+  "labelIds",
+] as const;
+
+// Column widths of the table; longer values are cut with "…"
+const TABLE_WIDTHS = { date: 16, from: 28, subject: 36, size: 9 };
+
+/**
+ * Formats an inventory of attachments
+ * @param items - Attachments with the path they would be written to
+ * @param format - table (for people), json or csv (for tools and spreadsheets)
+ * @param formatSize - Formats byte counts for the table
+ * @returns The inventory, ending with a newline
+ */
+export function formatInventory(
+  items: InventoryItem[],
+  format: InventoryFormat,
+  formatSize: (bytes: number) => string
+): string {
+  if (format === "json") return inventoryJson(items);
+  if (format === "csv") return inventoryCsv(items);
+  return inventoryTable(items, formatSize);
+}
+
+function totalSize(items: InventoryItem[]): number {
+  return items.reduce((sum, item) => sum + item.attachment.size, 0);
+}
+
+function toRecord(item: InventoryItem): Record<(typeof CSV_COLUMNS)[number], unknown> {
+  const att = item.attachment;
+  return {
+    path: item.path,
+    filename: att.filename,
+    size: att.size,
+    mimeType: att.mimeType,
+    inline: att.inline ?? false,
+    messageId: att.messageId,
+    threadId: att.threadId,
+    date: att.date,
+    from: att.from,
+    to: att.to,
+    subject: att.subject,
+    labelIds: att.labelIds,
+  };
+}
+
+function inventoryJson(items: InventoryItem[]): string {
+  const inventory = {
+    count: items.length,
+    totalSize: totalSize(items),
+    attachments: items.map(toRecord),
+  };
+  return `${JSON.stringify(inventory, null, 2)}\n`;
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break (RFC 4180)
+ * @param value - Field value; arrays are joined with ";"
+ * @returns Field ready to join with commas
+ */
+export function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function inventoryCsv(items: InventoryItem[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const item of items) {
+    const record = toRecord(item);
+    lines.push(CSV_COLUMNS.map((column) => csvField(record[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function cell(value: string, width: number): string {
+  const text = value.replace(/\s+/g, " ");
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+}
+
+function inventoryTable(
+  items: InventoryItem[],
+  formatSize: (bytes: number) => string
+): string {
+  const row = (date: string, from: string, subject: string, size: string, path: string) =>
+    [
+      cell(date, TABLE_WIDTHS.date),
+      cell(from, TABLE_WIDTHS.from),
+      cell(subject, TABLE_WIDTHS.subject),
+      size.padStart(TABLE_WIDTHS.size),
+      path,
+    ].join("  ");
+
+  const lines = [row("Date", "From", "Subject", "Size", "Path")];
+  for (const { path, attachment: att } of items) {
+    lines.push(
+      row(
+        att.date ? formatDate(new Date(att.date), "YYYY-MM-DD HH:mm") : "",
+        att.from ?? "",
+        att.subject ?? "",
+        formatSize(att.size),
+        path
+      )
+    );
+  }
+  lines.push("");
+  lines.push(`${items.length} attachment(s), ${formatSize(totalSize(items))} total`);
+  return `${lines.join("\n")}\n`;
+}
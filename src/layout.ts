@@ -0,0 +1,301 @@
+// Archive path layout module
+import type { AttachmentInfo } from "./gmail";
+
+export type GroupBy = "message" | "sender" | "thread";
+
+export const GROUP_BY_VALUES: GroupBy[] = ["message", "sender", "thread"];
+
+// Layouts equivalent to the --group-by shortcuts
+export const GROUP_BY_LAYOUTS: Record<GroupBy, string> = {
+  message: "{messageId}/{filename}",
+  sender: "{from.address}/{filename}",
+  thread: "{threadId}/{filename}",
+};
+
+export const DEFAULT_LAYOUT = "{filename}";
+
+const PLACEHOLDERS = [
+  "filename",
+  "name",
+  "ext",
+  "messageId",
+  "threadId",
+  "from",
+  "from.address",
+  "from.name",
+  "from.domain",
+  "to",
+  "to.address",
+  "to.name",
+  "to.domain",
+  "subject",
+  "date",
+  "label",
+];
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+const DATE_TOKENS = /YYYY|MM|DD|HH|mm|ss/g;
+const MAX_SEGMENT_LENGTH = 100;
+
+type LayoutToken =
+  | { type: "text"; value: string }
+  | { type: "placeholder"; name: string; format?: string };
+
+export interface Layout {
+  template: string;
+  segments: LayoutToken[][];
+}
+
+/**
+ * Makes a string safe to use as a single path segment
+ * Replaces path separators and characters rejected by common filesystems
+ * @param name - Raw name (filename, email address, ...)
+ * @returns Name without separators, never empty, "." or ".."
+ */
+export function sanitizePathSegment(name: string): string {
+  const cleaned = name
+    .replace(/[\/\\:*?"<>|\x00-\x1f]/g, "_")
+    .trim()
+    .replace(/^\.+$/, "_");
+
+  return cleaned.length > 0 ? cleaned : "_";
+}
+
+/**
+ * Extracts the email address from an address header
+ * Example: "Jane Doe <jane@example.com>" becomes "jane@example.com"
+ * Only the first address of a list is used
+ * @param header - Raw From/To header value
+ * @returns Lowercased address, or undefined when missing
+ */
+export function parseAddress(
+  header: string | undefined
+): { address: string; name: string } | undefined {
+  if (!header) return undefined;
+
+  const first = header.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)[0].trim();
+  const match = first.match(/^(.*?)\s*<([^>]+)>/);
+  const address = (match ? match[2] : first).trim().toLowerCase();
+  const name = (match ? match[1] : "").trim().replace(/^"(.*)"$/, "$1");
+
+  if (address.length === 0) return undefined;
+
+  return { address, name: name || address };
+}
+
+/**
+ * Extracts the email address from a From header
+ * @param from - Raw From header value
+ * @returns Lowercased address, or "unknown-sender" when missing
+ */
+export function senderAddress(from: string | undefined): string {
+  return parseAddress(from)?.address ?? "unknown-sender";
+}
+
+/**
+ * Formats a date with YYYY, MM, DD, HH, mm and ss tokens (local time)
+ * @param date - Date to format
+ * @param format - Format string, e.g. "YYYY-MM"
+ * @returns Formatted date
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return format.replace(DATE_TOKENS, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "HH":
+        return pad(date.getHours());
+      case "mm":
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+}
+
+/**
+ * Parses and validates a layout template
+ * Example: "{from.domain}/{date:YYYY-MM}/{subject}/{filename}"
+ * @param template - Template with "/" separated segments and {placeholders}
+ * @returns Parsed layout
+ * @throws Error describing the first invalid placeholder
+ */
+export function parseLayout(template: string): Layout {
+  const segments = template
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => parseSegment(segment, template));
+
+  if (segments.length === 0) {
+    throw new Error("Layout must not be empty");
+  }
+
+  return { template, segments };
+}
+
+function parseSegment(segment: string, template: string): LayoutToken[] {
+  const tokens: LayoutToken[] = [];
+  const pattern = /\{([^{}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(segment)) !== null) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: "text", value: segment.slice(lastIndex, match.index) });
+    }
+
+    const [name, format] = splitPlaceholder(match[1]);
+    if (!PLACEHOLDERS.includes(name)) {
+      throw new Error(
+        `Unknown layout placeholder "{${match[1]}}" in "${template}". ` +
+          `Available: ${PLACEHOLDERS.map((p) => `{${p}}`).join(", ")}`
+      );
+    }
+    if (format !== undefined && name !== "date") {
+      throw new Error(
+        `Layout placeholder "{${name}}" does not accept a format in "${template}"`
+      );
+    }
+
+    tokens.push({ type: "placeholder", name, format });
+    lastIndex = pattern.lastIndex;
+  }
+
+  const rest = segment.slice(lastIndex);
+  if (rest.includes("{") || rest.includes("}")) {
+    throw new Error(`Unbalanced braces in layout "${template}"`);
+  }
+  if (rest.length > 0) {
+    tokens.push({ type: "text", value: rest });
+  }
+
+  return tokens;
+}
+
+function splitPlaceholder(content: string): [string, string | undefined] {
+  const colonIndex = content.indexOf(":");
+  if (colonIndex === -1) return [content.trim(), undefined];
+  return [content.slice(0, colonIndex).trim(), content.slice(colonIndex + 1)];
+}
+
+/**
+ * Checks whether a layout uses a placeholder
+ * @param layout - Parsed layout
+ * @param name - Placeholder name, e.g. "label"
+ */
+export function layoutUses(layout: Layout, name: string): boolean {
+  return layout.segments.some((segment) =>
+    segment.some((token) => token.type === "placeholder" && token.name === name)
+  );
+}
+
+/**
+ * Renders the archive path of an attachment
+ * Each placeholder value is sanitized so it cannot add or escape folders
+ * @param layout - Parsed layout
+ * @param attachment - Attachment and message metadata
+ * @param labelNames - Label ID to name map, used by {label}
+ * @returns Relative path using "/" as separator
+ */
+export function renderLayout(
+  layout: Layout,
+  attachment: AttachmentInfo,
+  labelNames?: Map<string, string>
+): string {
+  return layout.segments
+    .map((segment) =>
+      sanitizePathSegment(
+        segment
+          .map((token) =>
+            token.type === "text"
+              ? token.value
+              : placeholderValue(token.name, token.format, attachment, labelNames)
+          )
+          .join("")
+      )
+    )
+    .join("/");
+}
+
+function placeholderValue(
+  name: string,
+  format: string | undefined,
+  attachment: AttachmentInfo,
+  labelNames: Map<string, string> | undefined
+): string {
+  const value = sanitizePathSegment(
+    rawPlaceholderValue(name, format, attachment, labelNames)
+  );
+  // Truncating the filename would cut off its extension
+  return name === "filename" ? value : value.slice(0, MAX_SEGMENT_LENGTH);
+}
+
+function rawPlaceholderValue(
+  name: string,
+  format: string | undefined,
+  attachment: AttachmentInfo,
+  labelNames: Map<string, string> | undefined
+): string {
+  const lastDotIndex = attachment.filename.lastIndexOf(".");
+  const from = parseAddress(attachment.from);
+  const to = parseAddress(attachment.to);
+
+  switch (name) {
+    case "filename":
+      return attachment.filename;
+    case "name":
+      return lastDotIndex > 0
+        ? attachment.filename.slice(0, lastDotIndex)
+        : attachment.filename;
+    case "ext":
+      return lastDotIndex > 0 ? attachment.filename.slice(lastDotIndex + 1) : "";
+    case "messageId":
+      return attachment.messageId;
+    case "threadId":
+      return attachment.threadId ?? attachment.messageId;
+    case "from":
+    case "from.address":
+      return from?.address ?? "unknown-sender";
+    case "from.name":
+      return from?.name ?? "unknown-sender";
+    case "from.domain":
+      return domainOf(from?.address) ?? "unknown-sender";
+    case "to":
+    case "to.address":
+      return to?.address ?? "unknown-recipient";
+    case "to.name":
+      return to?.name ?? "unknown-recipient";
+    case "to.domain":
+      return domainOf(to?.address) ?? "unknown-recipient";
+    case "subject":
+      return attachment.subject?.trim() || "no-subject";
+    case "date":
+      return attachment.date
+        ? formatDate(new Date(attachment.date), format || DEFAULT_DATE_FORMAT)
+        : "unknown-date";
+    default:
+      return firstUserLabel(attachment.labelIds, labelNames) ?? "unlabeled";
+  }
+}
+
+function domainOf(address: string | undefined): string | undefined {
+  if (!address) return undefined;
+  const atIndex = address.lastIndexOf("@");
+  return atIndex === -1 ? undefined : address.slice(atIndex + 1);
+}
+
+// User labels have IDs like "Label_12"; system labels (INBOX, UNREAD, ...) are skipped
+function firstUserLabel(
+  labelIds: string[] | undefined,
+  labelNames: Map<string, string> | undefined
+): string | undefined {
+  const labelId = labelIds?.find((id) => id.startsWith("Label_"));
+  if (!labelId) return undefined;
+  return labelNames?.get(labelId) ?? labelId;
+}
@@ -0,0 +1,117 @@
+// Manifest module - records which email every exported file came from
+import type { DuplicateGroup, Placement } from "./duplicates";
+import { csvField } from "./inventory";
+
+export type ManifestFormat = "json" | "csv" | "both" | "none";
+
+export const MANIFEST_FORMATS: ManifestFormat[] = ["json", "csv", "both", "none"];
+
+export const MANIFEST_JSON = "manifest.json";
+export const MANIFEST_CSV = "manifest.csv";
+
+export interface ManifestEntry {
+  // Path in the archive or output directory
+  path: string;
+  // Path of the stored copy when path is a symbolic link (--duplicates link)
+  linkTo?: string;
+  // Attachment filename as sent
+  filename: string;
+  // Attached messages (.eml) the file was found in, outermost first
+  nesting?: string[];
+  // Account the email belongs to (--account)
+  account?: string;
+  messageId: string;
+  threadId?: string;
+  from?: string;
+  subject?: string;
+  date?: string;
+  mimeType: string;
+  // Size of the downloaded content in bytes
+  size: number;
+  sha256: string;
+}
+
+export interface Manifest {
+  version: 1;
+  createdAt: string;
+  query: string;
+  // One entry per downloaded attachment, in search order
+  attachments: ManifestEntry[];
+  // Attachments with identical content that were stored once
+  duplicates: DuplicateGroup[];
+}
+
+const CSV_COLUMNS: (keyof ManifestEntry)[] = [
+  "path",
+  "linkTo",
+  "filename",
+  "nesting",
+  "account",
+  "messageId",
+  "threadId",
+  "from",
+  "subject",
+  "date",
+  "mimeType",
+  "size",
+  "sha256",
+];
+
+/**
+ * Builds the manifest of an export
+ * @param placements - Where each downloaded file ended up
+ * @param duplicates - Groups of attachments with identical content
+ * @param query - Gmail query of the export
+ * @param now - Creation time
+ * @returns Manifest ready to serialize
+ */
+export function buildManifest(
+  placements: Placement[],
+  duplicates: DuplicateGroup[],
+  query: string,
+  now: Date = new Date()
+): Manifest {
+  return {
+    version: 1,
+    createdAt: now.toISOString(),
+    query,
+    attachments: placements.map(({ file, path, linkTo }) => ({
+      path,
+      linkTo,
+      filename: file.attachment.filename,
+      nesting: file.attachment.nesting,
+      account: file.attachment.account,
+      messageId: file.attachment.messageId,
+      threadId: file.attachment.threadId,
+      from: file.attachment.from,
+      subject: file.attachment.subject,
+      date: file.attachment.date,
+      mimeType: file.attachment.mimeType,
+      size: file.size,
+      sha256: file.sha256,
+    })),
+    duplicates,
+  };
+}
+
+/**
+ * Serializes the manifest as JSON
+ * @param manifest - Manifest to serialize
+ * @returns Pretty-printed JSON
+ */
+export function manifestJson(manifest: Manifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/**
+ * Serializes the manifest's attachments as CSV, one row per attachment
+ * @param manifest - Manifest to serialize
+ * @returns CSV with a header row
+ */
+export function manifestCsv(manifest: Manifest): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const entry of manifest.attachments) {
+    lines.push(CSV_COLUMNS.map((column) => csvField(entry[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
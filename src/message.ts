@@ -0,0 +1,167 @@
+// Message export module - saves the email itself next to its attachments
+import type { AttachmentInfo } from "./gmail";
+import { decodeHeaderText, type MimePart, parseHeaderValue, parseMessage } from "./mime";
+
+// eml: the original message, txt: headers and plain text body, html: headers and HTML body
+export type MessageFormat = "eml" | "txt" | "html";
+
+export const MESSAGE_FORMATS: MessageFormat[] = ["eml", "txt", "html"];
+
+const MESSAGE_MIME_TYPES: Record<MessageFormat, string> = {
+  eml: "message/rfc822",
+  txt: "text/plain",
+  html: "text/html",
+};
+
+// Headers shown at the top of txt and html exports
+const SUMMARY_HEADERS = ["From", "To", "Cc", "Date", "Subject"];
+
+// Longest subject used as a filename, in characters
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Builds the download entry for the email an attachment came from
+ * @param att - Any attachment of the message; its metadata is reused
+ * @param format - Export format
+ * @returns Entry named after the subject, e.g. "Invoice 42.eml"
+ */
+export function messageEntry(att: AttachmentInfo, format: MessageFormat): AttachmentInfo {
+  const name = (att.subject ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_NAME_LENGTH);
+  return {
+    attachmentId: "",
+    filename: `${name || "message"}.${format}`,
+    mimeType: MESSAGE_MIME_TYPES[format],
+    size: att.messageSize ?? 0,
+    messageId: att.messageId,
+    partId: `message.${format}`,
+    threadId: att.threadId,
+    from: att.from,
+    to: att.to,
+    subject: att.subject,
+    date: att.date,
+    labelIds: att.labelIds,
+    messageFormat: format,
+    account: att.account,
+  };
+}
+
+/**
+ * Adds an entry for each message, placed before the first of its attachments
+ * @param attachments - Attachments to download, in search order
+ * @param format - Export format
+ * @returns Attachments with one message entry per message
+ */
+export function withMessages(
+  attachments: AttachmentInfo[],
+  format: MessageFormat
+): AttachmentInfo[] {
+  const seen = new Set<string>();
+  const result: AttachmentInfo[] = [];
+  for (const att of attachments) {
+    if (!seen.has(att.messageId)) {
+      seen.add(att.messageId);
+      result.push(messageEntry(att, format));
+    }
+    result.push(att);
+  }
+  return result;
+}
+
+function decodeText(part: MimePart): string {
+  const charset = part.params.charset ?? "utf-8";
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(part.body);
+  } catch {
+    return part.body.toString("latin1");
+  }
+}
+
+// Find the first body part of a type, skipping attachments and attached messages
+function findBody(part: MimePart, mimeType: string): MimePart | undefined {
+  if (part.parts.length > 0) {
+    for (const child of part.parts) {
+      const body = findBody(child, mimeType);
+      if (body) return body;
+    }
+    return undefined;
+  }
+
+  const disposition = parseHeaderValue(part.headers["content-disposition"] ?? "");
+  const attached =
+    disposition.value === "attachment" || disposition.params.filename || part.params.name;
+  return part.mimeType === mimeType && !attached ? part : undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Converts an HTML body to plain text for messages without a text part
+ * @param html - HTML body
+ * @returns Text with tags removed and common entities decoded
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6]|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&amp;/gi, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Renders a message in an export format
+ * txt and html start with the sender, recipients, date and subject; the body
+ * falls back to the other type when the message has only one of them
+ * @param raw - The message in Internet Message Format, as Gmail's raw format returns it
+ * @param format - Export format
+ * @returns File content; txt and html are UTF-8
+ */
+export function renderMessage(raw: Buffer, format: MessageFormat): Buffer {
+  if (format === "eml") return raw;
+
+  const message = parseMessage(raw);
+  const headers = SUMMARY_HEADERS.flatMap((name) => {
+    const value = message.headers[name.toLowerCase()];
+    return value ? [[name, decodeHeaderText(value)]] : [];
+  });
+  const textPart = findBody(message, "text/plain");
+  const htmlPart = findBody(message, "text/html");
+
+  if (format === "txt") {
+    const body = textPart
+      ? decodeText(textPart)
+      : htmlPart
+        ? htmlToText(decodeText(htmlPart))
+        : "";
+    const lines = headers.map(([name, value]) => `${name}: ${value}`);
+    return Buffer.from(`${lines.join("\n")}\n\n${body.trimEnd()}\n`);
+  }
+
+  const body = htmlPart
+    ? decodeText(htmlPart)
+    : `<pre>${escapeHtml(textPart ? decodeText(textPart) : "")}</pre>`;
+  const subject = headers.find(([name]) => name === "Subject")?.[1] ?? "";
+  const rows = headers
+    .map(([name, value]) => `<tr><th align="left">${name}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("\n");
+  return Buffer.from(
+    `<!DOCTYPE html>\n<meta charset="utf-8">\n<title>${escapeHtml(subject)}</title>\n` +
+      `<table>\n${rows}\n</table>\n<hr>\n${body}\n`
+  );
+}
@@ -0,0 +1,356 @@
+// MIME module - reads attached messages (message/rfc822) without the Gmail API
+
+export interface MimePart {
+  // Header values by lower case name, unfolded; the first occurrence wins
+  headers: Record<string, string>;
+  // Lower case type/subtype, text/plain when the header is missing
+  mimeType: string;
+  // Content-Type parameters such as boundary, charset and name
+  params: Record<string, string>;
+  // Content with the transfer encoding undone; empty for multipart parts
+  body: Buffer;
+  parts: MimePart[];
+}
+
+export interface EmbeddedAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  // Position in the message, "1.2" style like Gmail's partId
+  partId: string;
+  inline: boolean;
+  contentId?: string;
+}
+
+// File extensions for generated names of inline parts
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/tiff": "tif",
+  "image/svg+xml": "svg",
+  "application/pdf": "pdf",
+  "message/rfc822": "eml",
+};
+
+/**
+ * Whether a part is shown inside the message body rather than attached to it
+ * Inline parts are marked "Content-Disposition: inline", or have a Content-ID
+ * and no disposition at all
+ * @param disposition - Lower case disposition type, undefined when missing
+ * @param contentId - Content-ID, undefined when missing
+ */
+export function isInlinePart(
+  disposition: string | undefined,
+  contentId: string | undefined
+): boolean {
+  return disposition === "inline" || (disposition === undefined && contentId !== undefined);
+}
+
+/**
+ * Names an inline part that has no filename, from its Content-ID when possible
+ * Example: Content-ID "image001.png@01D9A1B2.C3D4E5F0" becomes "image001.png"
+ * @param contentId - Content-ID without angle brackets
+ * @param partId - MIME part ID, used when there is no Content-ID
+ * @param mimeType - MIME type, used for the extension
+ * @returns Generated filename
+ */
+export function inlineFilename(
+  contentId: string | undefined,
+  partId: string | undefined,
+  mimeType: string
+): string {
+  const fromContentId = contentId?.split("@")[0].replace(/[^\w.-]/g, "_");
+  if (fromContentId && /\.\w+$/.test(fromContentId)) return fromContentId;
+  const name = fromContentId || `inline-${partId ?? "part"}`;
+  return `${name}.${MIME_EXTENSIONS[mimeType.toLowerCase()] ?? "bin"}`;
+}
+
+// Decode bytes held in a latin1 string with the named charset
+function decodeCharset(binary: string, charset: string): string {
+  const bytes = Buffer.from(binary, "latin1");
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString("latin1");
+  }
+}
+
+/**
+ * Decodes header text: raw UTF-8 bytes and RFC 2047 encoded words
+ * Example: "=?UTF-8?B?UmVjaG51bmc=?= 42" becomes "Rechnung 42"
+ * @param value - Header value as read from the message (latin1)
+ * @returns Decoded text
+ */
+export function decodeHeaderText(value: string): string {
+  const text = /[\x80-\xff]/.test(value) ? decodeCharset(value, "utf-8") : value;
+  return text
+    .replace(/(\?=)\s+(?==\?)/g, "$1")
+    .replace(
+      /=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, encoded: string) => {
+        const binary =
+          encoding.toLowerCase() === "b"
+            ? Buffer.from(encoded, "base64").toString("latin1")
+            : encoded
+                .replace(/_/g, " ")
+                .replace(/=([0-9a-f]{2})/gi, (_, hex: string) =>
+                  String.fromCharCode(parseInt(hex, 16))
+                );
+        return decodeCharset(binary, charset);
+      }
+    );
+}
+
+// Split "type; a=1; b="x;y"" at semicolons outside quotes
+function splitParams(value: string): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\" && quoted) {
+      current += char + (value[++i] ?? "");
+    } else if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (char === ";" && !quoted) {
+      pieces.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  pieces.push(current);
+  return pieces.map((piece) => piece.trim());
+}
+
+function unquote(value: string): string {
+  return /^".*"$/s.test(value) ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
+
+/**
+ * Parses a structured header such as Content-Type or Content-Disposition
+ * Parameters split with RFC 2231 (name*0, name*1*, charset''percent-encoding)
+ * are joined and decoded
+ * @param value - Header value
+ * @returns Lower case value before the first semicolon and the parameters by lower case name
+ */
+export function parseHeaderValue(value: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const [first, ...rest] = splitParams(value);
+  const params: Record<string, string> = {};
+  const sections: Record<string, { index: number; value: string; encoded: boolean }[]> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf("=");
+    if (equals <= 0) continue;
+    const name = param.slice(0, equals).trim().toLowerCase();
+    const paramValue = unquote(param.slice(equals + 1).trim());
+
+    const extended = name.match(/^(.+?)\*(?:(\d+)(\*)?)?$/);
+    if (extended) {
+      const encoded = extended[2] === undefined || extended[3] !== undefined;
+      (sections[extended[1]] ??= []).push({
+        index: Number(extended[2] ?? 0),
+        value: paramValue,
+        encoded,
+      });
+    } else {
+      params[name] = paramValue;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(sections)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = "us-ascii";
+    let binary = "";
+    for (const [position, piece] of pieces.entries()) {
+      let text = piece.value;
+      if (piece.encoded) {
+        if (position === 0) {
+          const match = text.match(/^([^']*)'[^']*'(.*)$/s);
+          if (match) {
+            charset = match[1] || charset;
+            text = match[2];
+          }
+        }
+        text = text.replace(/%([0-9a-f]{2})/gi, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16))
+        );
+      }
+      binary += text;
+    }
+    // The extended form wins over a plain parameter of the same name
+    params[name] = decodeCharset(binary, charset);
+  }
+
+  return { value: (first ?? "").toLowerCase(), params };
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n(?![ \t])/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line
+        .slice(colon + 1)
+        .replace(/\r?\n[ \t]+/g, " ")
+        .trim();
+    }
+  }
+  return headers;
+}
+
+function decodeBody(text: string, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(text.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return Buffer.from(
+        text
+          .replace(/[ \t]+(?=\r?\n)/g, "")
+          .replace(/=\r?\n/g, "")
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16))
+          ),
+        "latin1"
+      );
+    default:
+      return Buffer.from(text, "latin1");
+  }
+}
+
+// Split a multipart body at its boundary lines, ignoring preamble and epilogue
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, "g");
+  const parts: string[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+
+  while ((match = delimiter.exec(body))) {
+    if (start >= 0) parts.push(body.slice(start, match.index));
+    if (match[1]) return parts;
+    start = delimiter.lastIndex;
+  }
+
+  // Messages cut off before the closing boundary keep their last part
+  if (start >= 0) parts.push(body.slice(start));
+  return parts;
+}
+
+function parseEntity(text: string): MimePart {
+  // A part without headers starts with the blank line itself
+  let headerText = "";
+  let bodyText = text.replace(/^\r?\n/, "");
+  if (bodyText === text) {
+    const blank = text.match(/\r?\n\r?\n/);
+    headerText = blank ? text.slice(0, blank.index) : text;
+    bodyText = blank ? text.slice(blank.index! + blank[0].length) : "";
+  }
+
+  const headers = parseHeaders(headerText);
+  const contentType = parseHeaderValue(headers["content-type"] ?? "text/plain");
+  const mimeType = contentType.value.includes("/") ? contentType.value : "text/plain";
+
+  if (mimeType.startsWith("multipart/") && contentType.params.boundary) {
+    return {
+      headers,
+      mimeType,
+      params: contentType.params,
+      body: Buffer.alloc(0),
+      parts: splitMultipart(bodyText, contentType.params.boundary).map(parseEntity),
+    };
+  }
+
+  return {
+    headers,
+    mimeType,
+    params: contentType.params,
+    body: decodeBody(bodyText, headers["content-transfer-encoding"]),
+    parts: [],
+  };
+}
+
+/**
+ * Parses a message in Internet Message Format (an .eml file)
+ * The parser is lenient: missing boundaries and malformed headers never throw
+ * @param raw - Message bytes
+ * @returns Root part of the message
+ */
+export function parseMessage(raw: Buffer): MimePart {
+  return parseEntity(raw.toString("latin1"));
+}
+
+function partFilename(part: MimePart): string | undefined {
+  const disposition = parseHeaderValue(part.headers["content-disposition"] ?? "");
+  const name = disposition.params.filename ?? part.params.name;
+  return name ? decodeHeaderText(name).trim() || undefined : undefined;
+}
+
+// Name an attached message after its subject, like Gmail does when forwarding as attachment
+function messageFilename(part: MimePart, partId: string): string {
+  const subject = decodeHeaderText(parseMessage(part.body).headers.subject ?? "").trim();
+  return `${subject || `message-${partId}`}.eml`;
+}
+
+function collectAttachments(
+  part: MimePart,
+  partId: string,
+  attachments: EmbeddedAttachment[]
+): void {
+  if (part.parts.length > 0) {
+    part.parts.forEach((child, index) =>
+      collectAttachments(child, partId ? `${partId}.${index + 1}` : `${index + 1}`, attachments)
+    );
+    return;
+  }
+
+  const disposition = part.headers["content-disposition"]
+    ? parseHeaderValue(part.headers["content-disposition"]).value || undefined
+    : undefined;
+  const contentId = part.headers["content-id"]?.replace(/^<|>$/g, "") || undefined;
+  const inline = isInlinePart(disposition, contentId);
+  let filename = partFilename(part);
+
+  // Same rules as for messages in the mailbox: body text has no filename and
+  // nameless parts are only kept when they are inline content or attached messages
+  if (!filename) {
+    if (part.mimeType === "message/rfc822") {
+      filename = messageFilename(part, partId || "1");
+    } else if (inline && !part.mimeType.startsWith("text/")) {
+      filename = inlineFilename(contentId, partId || "1", part.mimeType);
+    } else {
+      return;
+    }
+  }
+
+  attachments.push({
+    filename,
+    mimeType: part.mimeType,
+    data: part.body,
+    partId: partId || "1",
+    inline,
+    contentId,
+  });
+}
+
+/**
+ * Lists the attachments of a message, including attached messages
+ * Attached messages are returned as .eml files; their own attachments are not
+ * included, so callers can decide how deep to go
+ * @param raw - Message bytes
+ * @returns Attachments in the order they appear
+ */
+export function messageAttachments(raw: Buffer): EmbeddedAttachment[] {
+  const attachments: EmbeddedAttachment[] = [];
+  collectAttachments(parseMessage(raw), "", attachments);
+  return attachments;
+}
@@ -0,0 +1,83 @@
+// Attached message module - finds the attachments of forwarded .eml files
+import type { AttachmentInfo } from "./gmail";
+import { sanitizePathSegment } from "./layout";
+import { messageAttachments } from "./mime";
+
+// keep: store attached messages as .eml files, extract: store only the files
+// inside them, both: store the .eml files and the files inside them
+export type AttachedMessageMode = "keep" | "extract" | "both";
+
+export const ATTACHED_MESSAGE_MODES: AttachedMessageMode[] = ["keep", "extract", "both"];
+
+// Messages attached to attached messages are followed this deep
+const MAX_NESTING = 10;
+
+export interface NestedAttachment {
+  // Attachment found inside the message, with the outer email's metadata
+  attachment: AttachmentInfo;
+  data: Buffer;
+  // Path below the folder of the outermost attached message
+  path: string;
+}
+
+/**
+ * Whether an attachment is an attached email (forwarded as attachment)
+ * @param att - Attachment to check
+ */
+export function isAttachedMessage(att: Pick<AttachmentInfo, "mimeType" | "filename">): boolean {
+  return (
+    att.mimeType.toLowerCase() === "message/rfc822" || /\.eml$/i.test(att.filename)
+  );
+}
+
+/**
+ * Names the folder that holds the contents of an attached message
+ * Example: "invoices/Fwd_ Invoice 42.eml" becomes "invoices/Fwd_ Invoice 42"
+ * @param path - Path of the .eml file in the output
+ * @returns Path of the folder next to it
+ */
+export function contentsFolder(path: string): string {
+  const folder = path.replace(/\.eml$/i, "");
+  return folder === path ? `${path}_contents` : folder;
+}
+
+/**
+ * Extracts the attachments of an attached message, following nested attached messages
+ * Attachments keep the sender, subject and date of the email in the mailbox;
+ * their nesting lists the .eml files they were found in
+ * @param container - The attached message as found in the mailbox (or in another attached message)
+ * @param raw - Content of the attached message
+ * @param depth - Current nesting depth
+ * @returns Attachments in message order, nested attached messages before their contents
+ */
+export function expandAttachedMessage(
+  container: AttachmentInfo,
+  raw: Buffer,
+  depth = 0
+): NestedAttachment[] {
+  const results: NestedAttachment[] = [];
+  const nesting = [...(container.nesting ?? []), container.filename];
+
+  for (const part of messageAttachments(raw)) {
+    const attachment: AttachmentInfo = {
+      ...container,
+      filename: part.filename,
+      mimeType: part.mimeType,
+      size: part.data.length,
+      partId: `${container.partId ?? container.attachmentId}/${part.partId}`,
+      inline: part.inline || undefined,
+      contentId: part.contentId,
+      nesting,
+    };
+    const path = sanitizePathSegment(part.filename);
+    results.push({ attachment, data: part.data, path });
+
+    if (isAttachedMessage(attachment) && depth + 1 < MAX_NESTING) {
+      for (const inner of expandAttachedMessage(attachment, part.data, depth + 1)) {
+        results.push({ ...inner, path: `${contentsFolder(path)}/${inner.path}` });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,41 @@
+// Bounded-concurrency executor
+
+/**
+ * Maps items through an async function with at most `concurrency` calls in flight
+ * Results keep the order of the input, whatever order the calls finish in.
+ * After the first failure no new calls are started; the returned promise
+ * rejects with that error once the calls already in flight have settled.
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async function called with each item and its index
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+
+  return results;
+}
@@ -0,0 +1,524 @@
+// Query module - parses, checks and builds Gmail search queries locally
+//
+// Grammar, following Gmail: terms side by side must all match; OR binds
+// tighter than that, so "a b OR c" is "a (b OR c)".
+//   query   = orExpr { orExpr }
+//   orExpr  = unary { "OR" unary }
+//   unary   = "-" unary | primary
+//   primary = "(" query ")" | "{" { unary } "}" | operator | text
+//   operator = name ":" ( word | quoted | "(" query ")" | "{" { unary } "}" )
+
+export type QueryNode =
+  | { type: "text"; value: string; quoted: boolean }
+  | { type: "operator"; name: string; value: QueryNode }
+  | { type: "not"; node: QueryNode }
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] }
+  // Parentheses group a query; braces match any of their terms
+  | { type: "group"; node: QueryNode; braces: boolean };
+
+type ValueKind = "text" | "date" | "period" | "size" | string[];
+
+const STARS = [
+  "yellow-star",
+  "orange-star",
+  "red-star",
+  "purple-star",
+  "blue-star",
+  "green-star",
+  "red-bang",
+  "orange-guillemet",
+  "yellow-bang",
+  "green-check",
+  "blue-info",
+  "purple-question",
+];
+
+// Operators Gmail knows, with the values they take
+const OPERATORS: Record<string, ValueKind> = {
+  from: "text",
+  to: "text",
+  cc: "text",
+  bcc: "text",
+  deliveredto: "text",
+  list: "text",
+  subject: "text",
+  label: "text",
+  filename: "text",
+  rfc822msgid: "text",
+  has: [
+    "attachment",
+    "drive",
+    "document",
+    "spreadsheet",
+    "presentation",
+    "youtube",
+    "userlabels",
+    "nouserlabels",
+    ...STARS,
+  ],
+  in: [
+    "anywhere",
+    "inbox",
+    "archive",
+    "trash",
+    "spam",
+    "sent",
+    "draft",
+    "drafts",
+    "snoozed",
+    "chats",
+    "important",
+    "starred",
+  ],
+  is: ["important", "starred", "unread", "read", "snoozed", "muted", ...STARS],
+  category: [
+    "primary",
+    "social",
+    "promotions",
+    "updates",
+    "forums",
+    "reservations",
+    "purchases",
+  ],
+  after: "date",
+  before: "date",
+  older: "date",
+  newer: "date",
+  older_than: "period",
+  newer_than: "period",
+  larger: "size",
+  smaller: "size",
+  size: "size",
+};
+
+type Token =
+  | { kind: "(" | ")" | "{" | "}" | "-" | "OR" }
+  | { kind: "text"; value: string; quoted: boolean }
+  // Value missing when a group follows the colon
+  | { kind: "operator"; name: string; value?: string; quoted: boolean };
+
+const OPERATOR_PATTERN = /^([A-Za-z][A-Za-z_]*):(.*)$/s;
+const WORD_END = /[\s(){}"]/;
+
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new Error("Missing closing quote");
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+// Words such as re: or https://example.com are searched as text, as Gmail does
+function unknownOperator(name: string): string {
+  const typo = suggestion(name.toLowerCase(), Object.keys(OPERATORS), ":");
+  return `"${name}:" is not a search operator${typo}, so it is searched as text`;
+}
+
+function tokenize(query: string, warnings: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if ("(){}".includes(char)) {
+      tokens.push({ kind: char as "(" | ")" | "{" | "}" });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: "text", value, quoted: true });
+      i = end;
+    } else if (char === "-" && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: "-" });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !WORD_END.test(query[end])) end++;
+      const word = query.slice(i, end);
+      i = end;
+
+      const match = word.match(OPERATOR_PATTERN);
+      if (word === "OR") {
+        tokens.push({ kind: "OR" });
+      } else if (word === "AND") {
+        // Terms side by side must all match anyway
+      } else if (match && !(match[1].toLowerCase() in OPERATORS)) {
+        const warning = unknownOperator(match[1]);
+        if (!warnings.includes(warning)) warnings.push(warning);
+        tokens.push({ kind: "text", value: word, quoted: false });
+      } else if (match && match[2] === "" && query[i] === '"') {
+        const { value, end: quoteEnd } = readQuoted(query, i);
+        tokens.push({ kind: "operator", name: match[1], value, quoted: true });
+        i = quoteEnd;
+      } else if (match && match[2] === "" && (query[i] === "(" || query[i] === "{")) {
+        tokens.push({ kind: "operator", name: match[1], quoted: false });
+      } else if (match) {
+        if (match[2] === "") {
+          throw new Error(`"${match[1]}:" needs a value, e.g. ${match[1]}:something`);
+        }
+        tokens.push({ kind: "operator", name: match[1], value: match[2], quoted: false });
+      } else {
+        tokens.push({ kind: "text", value: word, quoted: false });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseTokens(tokens: Token[]): QueryNode | null {
+  let position = 0;
+  const peek = (): Token | undefined => tokens[position];
+
+  function expect(kind: ")" | "}"): void {
+    if (peek()?.kind !== kind) {
+      throw new Error(`Missing "${kind}"`);
+    }
+    position++;
+  }
+
+  function sequence(close: ")" | null): QueryNode {
+    const nodes: QueryNode[] = [];
+    while (peek() && peek()!.kind !== close) {
+      if (peek()!.kind === ")") {
+        throw new Error('Unexpected ")" without a matching "("');
+      }
+      nodes.push(orExpr());
+    }
+    if (nodes.length === 0) {
+      throw new Error("Empty parentheses");
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "and", nodes };
+  }
+
+  function orExpr(): QueryNode {
+    const nodes = [unary()];
+    while (peek()?.kind === "OR") {
+      position++;
+      if (!peek() || [")", "}", "OR"].includes(peek()!.kind)) {
+        throw new Error('"OR" needs a term on both sides');
+      }
+      nodes.push(unary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "or", nodes };
+  }
+
+  function unary(): QueryNode {
+    if (peek()?.kind === "-") {
+      position++;
+      return { type: "not", node: unary() };
+    }
+    return primary();
+  }
+
+  function group(): QueryNode {
+    const open = tokens[position++];
+    if (open?.kind === "(") {
+      const node = sequence(")");
+      expect(")");
+      return { type: "group", node, braces: false };
+    }
+    if (open?.kind !== "{") {
+      throw new Error('Expected "(" or "{"');
+    }
+    const nodes: QueryNode[] = [];
+    while (peek() && peek()!.kind !== "}") {
+      nodes.push(unary());
+    }
+    expect("}");
+    if (nodes.length === 0) {
+      throw new Error("Empty braces");
+    }
+    return { type: "group", node: { type: "or", nodes }, braces: true };
+  }
+
+  function primary(): QueryNode {
+    const token = peek();
+    if (!token) {
+      throw new Error("The query ends too early");
+    }
+    switch (token.kind) {
+      case "(":
+      case "{":
+        return group();
+      case "text":
+        position++;
+        return { type: "text", value: token.value, quoted: token.quoted };
+      case "operator": {
+        position++;
+        const value: QueryNode =
+          token.value === undefined
+            ? group()
+            : { type: "text", value: token.value, quoted: token.quoted };
+        return { type: "operator", name: token.name, value };
+      }
+      case "OR":
+        throw new Error('"OR" needs a term on both sides');
+      default:
+        throw new Error(`Unexpected "${token.kind}"`);
+    }
+  }
+
+  if (tokens.length === 0) return null;
+  const node = sequence(null);
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].kind}"`);
+  }
+  return node;
+}
+
+// Number of single-character edits between two words, a swap of neighbours counting as one
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Closest candidate, allowing one typo in short words and two in longer ones
+function suggestion(word: string, candidates: string[], suffix = ""): string {
+  let best: string | undefined;
+  let bestDistance = word.length > 4 ? 3 : 2;
+  for (const candidate of candidates) {
+    const distance = editDistance(word.toLowerCase(), candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean "${best}${suffix}"?)` : "";
+}
+
+const DATE_FORMATS = [
+  /^(?<year>\d{4})[/-](?<month>\d{1,2})[/-](?<day>\d{1,2})$/,
+  /^(?<month>\d{1,2})\/(?<day>\d{1,2})\/(?<year>\d{4})$/,
+];
+
+function isValidDate(value: string): boolean {
+  // Seconds since 1970 are allowed too
+  if (/^\d{9,}$/.test(value)) return true;
+
+  for (const format of DATE_FORMATS) {
+    const groups = value.match(format)?.groups;
+    if (!groups) continue;
+    const year = Number(groups.year);
+    const month = Number(groups.month);
+    const day = Number(groups.day);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }
+  return false;
+}
+
+function checkValue(name: string, kind: ValueKind, value: string): void {
+  if (Array.isArray(kind)) {
+    if (!kind.includes(value.toLowerCase())) {
+      throw new Error(
+        `Invalid value "${value}" for ${name}:${suggestion(value, kind)}. ` +
+          `Use one of: ${kind.join(", ")}`
+      );
+    }
+  } else if (kind === "date" && !isValidDate(value)) {
+    throw new Error(`Invalid date "${value}" for ${name}: (use YYYY/MM/DD, e.g. 2024/03/31)`);
+  } else if (kind === "period" && !/^\d+[dmy]$/i.test(value)) {
+    throw new Error(
+      `Invalid period "${value}" for ${name}: (use a number with d, m or y, e.g. 30d)`
+    );
+  } else if (kind === "size" && !/^\d+(\.\d+)?([kmg]b?|b)?$/i.test(value)) {
+    throw new Error(
+      `Invalid size "${value}" for ${name}: (use bytes or a number with K, M or G, e.g. 10M)`
+    );
+  }
+}
+
+// The terms of a value, e.g. has:{attachment drive}, are values of the operator
+function checkValues(name: string, kind: ValueKind, node: QueryNode): void {
+  switch (node.type) {
+    case "text":
+      return checkValue(name, kind, node.value);
+    case "operator":
+      return validate(node);
+    case "not":
+    case "group":
+      return checkValues(name, kind, node.node);
+    case "and":
+    case "or":
+      node.nodes.forEach((term) => checkValues(name, kind, term));
+  }
+}
+
+function validate(node: QueryNode): void {
+  switch (node.type) {
+    case "text":
+      return;
+    case "operator": {
+      // Only known operators are parsed as operators
+      const name = node.name.toLowerCase();
+      return checkValues(name, OPERATORS[name], node.value);
+    }
+    case "not":
+    case "group":
+      return validate(node.node);
+    case "and":
+    case "or":
+      node.nodes.forEach(validate);
+  }
+}
+
+/**
+ * Parses and checks a Gmail search query
+ * A word that looks like an unknown operator, e.g. re: or https://example.com,
+ * is searched as text and noted in warnings
+ * @param query - Query as typed
+ * @param warnings - Collects the words searched as text
+ * @returns Syntax tree, or null for an empty query
+ * @throws Error naming the problem: unbalanced quotes or brackets, operators
+ *   without a value, invalid dates, sizes, periods or operator values
+ */
+export function parseQuery(query: string, warnings: string[] = []): QueryNode | null {
+  const node = parseTokens(tokenize(query, warnings));
+  if (node) validate(node);
+  return node;
+}
+
+/**
+ * Turns a syntax tree back into query text
+ * @param node - Tree from parseQuery
+ * @returns Query Gmail reads the same way
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case "text":
+      return node.quoted ? `"${node.value}"` : node.value;
+    case "operator":
+      return `${node.name}:${formatQuery(node.value)}`;
+    case "not":
+      return `-${formatQuery(node.node)}`;
+    case "and":
+      return node.nodes.map(formatQuery).join(" ");
+    case "or":
+      return node.nodes.map(formatQuery).join(" OR ");
+    case "group":
+      return node.braces && node.node.type === "or"
+        ? `{${node.node.nodes.map(formatQuery).join(" ")}}`
+        : `(${formatQuery(node.node)})`;
+  }
+}
+
+function isAttachmentOperator(node: QueryNode): boolean {
+  return (
+    node.type === "operator" &&
+    node.name.toLowerCase() === "has" &&
+    node.value.type === "text" &&
+    node.value.value.toLowerCase() === "attachment"
+  );
+}
+
+/**
+ * Makes sure a query only matches messages with attachments
+ * has:attachment counts only where every match needs it, not inside OR or
+ * quotes; otherwise it is added
+ * @param query - Query as typed
+ * @returns The query, with has:attachment added when needed, and the words
+ *   searched as text that looked like operators
+ * @throws Error for invalid queries and queries that exclude attachments
+ */
+export function requireAttachments(query: string): {
+  query: string;
+  added: boolean;
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+  const node = parseQuery(query, warnings);
+  if (!node) {
+    throw new Error("The query is empty");
+  }
+
+  const terms = node.type === "and" ? node.nodes : [node];
+  if (terms.some(isAttachmentOperator)) {
+    return { query, added: false, warnings };
+  }
+  if (terms.some((term) => term.type === "not" && isAttachmentOperator(term.node))) {
+    throw new Error("-has:attachment leaves no attachments to download");
+  }
+
+  const attachment: QueryNode = {
+    type: "operator",
+    name: "has",
+    value: { type: "text", value: "attachment", quoted: false },
+  };
+  return {
+    query: formatQuery({ type: "and", nodes: [...terms, attachment] }),
+    added: true,
+    warnings,
+  };
+}
+
+// Search options that are turned into query operators
+export interface QueryFlags {
+  from?: string;
+  to?: string;
+  subject?: string;
+  label?: string;
+  // Relative period (30d, 6m, 1y) or date
+  since?: string;
+  before?: string;
+}
+
+// Names of the search options, used as --from, --since, ...
+export const QUERY_FLAGS: (keyof QueryFlags)[] = ["from", "to", "subject", "label", "since", "before"];
+
+function quoteValue(value: string): string {
+  // Gmail has no escape for quotes inside quotes
+  return /[\s(){}"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+/**
+ * Turns search options into query operators
+ * --since and --before take a period such as 30d (days), 6m (months) or 1y,
+ * or a date such as 2024-03-31
+ * @param flags - Search options
+ * @returns Query terms, e.g. ["from:billing@vendor.com", "newer_than:30d"]
+ * @throws Error for invalid periods and dates
+ */
+export function compileFlags(flags: QueryFlags): string[] {
+  const terms: string[] = [];
+
+  for (const name of ["from", "to", "subject", "label"] as const) {
+    const value = flags[name]?.trim();
+    if (value) terms.push(`${name}:${quoteValue(value)}`);
+  }
+
+  for (const [flag, relative, absolute] of [
+    ["since", "newer_than", "after"],
+    ["before", "older_than", "before"],
+  ] as const) {
+    const value = flags[flag]?.trim();
+    if (!value) continue;
+    if (/^\d+[dmy]$/i.test(value)) {
+      terms.push(`${relative}:${value.toLowerCase()}`);
+    } else if (isValidDate(value) && !/^\d+$/.test(value)) {
+      terms.push(`${absolute}:${value.replace(/-/g, "/")}`);
+    } else {
+      throw new Error(
+        `Invalid --${flag} "${value}": use a period such as 30d, 6m or 1y, or a date such as 2024-03-31`
+      );
+    }
+  }
+
+  return terms;
+}
@@ -0,0 +1,56 @@
+// Spool module - keeps downloaded attachments on disk until the output is written
+import { mkdir, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { toWriteError } from "./zip";
+
+export interface Spool {
+  dir: string;
+  /**
+   * Writes data to a new file in the spool
+   * @returns Path of the spooled file
+   */
+  write(data: Buffer): Promise<string>;
+  /** Deletes the spool directory and everything in it */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Opens a spool directory, creating it if needed
+ * Spooling next to the output keeps downloads off a RAM-backed /tmp and lets
+ * directory output move files into place instead of copying them. Files already
+ * in the directory are kept, so an interrupted export can reuse them.
+ * @param dir - Spool directory (created with its parents if missing)
+ * @returns Spool to write downloads to
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function openSpool(dir: string): Promise<Spool> {
+  let existing: string[];
+  try {
+    await mkdir(dir, { recursive: true });
+    existing = await readdir(dir);
+  } catch (error) {
+    throw toWriteError(error, dir, "temporary files");
+  }
+
+  // Continue numbering after files left by an earlier run
+  let counter = existing.reduce((max, name) => {
+    const match = name.match(/^(\d+)\.part$/);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+
+  const write = async (data: Buffer): Promise<string> => {
+    const filePath = join(dir, `${++counter}.part`);
+    try {
+      await Bun.write(filePath, data);
+    } catch (error) {
+      throw toWriteError(error, filePath, "temporary file");
+    }
+    return filePath;
+  };
+
+  const cleanup = async (): Promise<void> => {
+    await rm(dir, { recursive: true, force: true });
+  };
+
+  return { dir, write, cleanup };
+}
@@ -0,0 +1,118 @@
+// Download state module - remembers attachments fetched by earlier runs
+import type { AttachmentInfo } from "./gmail";
+import { formatDate } from "./layout";
+import { toWriteError } from "./zip";
+
+export const DEFAULT_STATE_PATH = ".gmail-attachments-state.json";
+
+export interface DownloadRecord {
+  filename: string;
+  downloadedAt: string;
+}
+
+export interface DownloadState {
+  version: 1;
+  downloads: Record<string, DownloadRecord>;
+}
+
+/**
+ * Builds the state key of an attachment
+ * Gmail issues a new attachmentId every time a message is fetched, so the
+ * MIME part ID is preferred; attachmentId is only a fallback
+ * @param attachment - Attachment metadata
+ * @returns Key combining the account (if named), the message ID and the part
+ */
+export function attachmentKey(attachment: AttachmentInfo): string {
+  const key = `${attachment.messageId}/${attachment.partId ?? attachment.attachmentId}`;
+  // Message IDs are only unique within a mailbox
+  return attachment.account ? `${attachment.account}:${key}` : key;
+}
+
+/**
+ * Loads the download state from disk
+ * @param statePath - Path of the state file
+ * @returns The stored state, or an empty state when the file does not exist
+ * @throws Error when the file exists but cannot be parsed
+ */
+export async function loadState(statePath: string): Promise<DownloadState> {
+  const file = Bun.file(statePath);
+
+  if (!(await file.exists())) {
+    return { version: 1, downloads: {} };
+  }
+
+  let state: DownloadState;
+  try {
+    state = JSON.parse(await file.text()) as DownloadState;
+  } catch {
+    throw new Error(
+      `Failed to parse ${statePath}. Fix or delete it to start a full download.`
+    );
+  }
+
+  if (state.version !== 1 || typeof state.downloads !== "object" || !state.downloads) {
+    throw new Error(
+      `Unsupported state file format in ${statePath}. Delete it to start a full download.`
+    );
+  }
+
+  return state;
+}
+
+/**
+ * Checks whether an attachment was downloaded by an earlier run
+ */
+export function isDownloaded(
+  state: DownloadState,
+  attachment: AttachmentInfo
+): boolean {
+  return attachmentKey(attachment) in state.downloads;
+}
+
+/**
+ * Records a successful download in the in-memory state
+ * Call saveState once the output has been written to persist it
+ */
+export function recordDownload(
+  state: DownloadState,
+  attachment: AttachmentInfo,
+  downloadedAt: Date = new Date()
+): void {
+  state.downloads[attachmentKey(attachment)] = {
+    filename: attachment.filename,
+    downloadedAt: downloadedAt.toISOString(),
+  };
+}
+
+/**
+ * Writes the download state to disk
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function saveState(
+  state: DownloadState,
+  statePath: string
+): Promise<void> {
+  try {
+    await Bun.write(statePath, JSON.stringify(state, null, 2));
+  } catch (error) {
+    throw toWriteError(error, statePath, "state file");
+  }
+}
+
+/**
+ * Derives a new archive name for an incremental run
+ * Example: "attachments.zip" becomes "attachments-20240315-093005.zip"
+ * @param outputPath - Requested ZIP path
+ * @param now - Time of the run
+ * @returns Path that does not overwrite earlier deltas
+ */
+export function incrementalOutputPath(outputPath: string, now: Date = new Date()): string {
+  const stamp = formatDate(now, "YYYYMMDD-HHmmss");
+
+  const lastSlashIndex = outputPath.lastIndexOf("/");
+  const lastDotIndex = outputPath.lastIndexOf(".");
+  if (lastDotIndex > lastSlashIndex + 1) {
+    return `${outputPath.slice(0, lastDotIndex)}-${stamp}${outputPath.slice(lastDotIndex)}`;
+  }
+  return `${outputPath}-${stamp}`;
+}
@@ -0,0 +1,49 @@
+// Threads module - keeps the attachments of a conversation together
+import type { AttachmentInfo } from "./gmail";
+
+// Thread of an attachment; a message without a thread ID is a thread of its own
+function threadKey(att: AttachmentInfo): string {
+  return `${att.account ?? ""}\0${att.threadId ?? att.messageId}`;
+}
+
+/**
+ * Orders attachments thread by thread, each thread's by message date
+ * Threads keep the order they first appear in; attachments of the same
+ * message keep their order
+ * @param attachments - Attachments in search order
+ * @returns Attachments ordered so that revisions of a file follow each other
+ */
+export function sortByThread(attachments: AttachmentInfo[]): AttachmentInfo[] {
+  const threads = new Map<string, AttachmentInfo[]>();
+  for (const att of attachments) {
+    const key = threadKey(att);
+    const thread = threads.get(key) ?? [];
+    thread.push(att);
+    threads.set(key, thread);
+  }
+
+  // Dates are ISO 8601 strings, so they sort as text; sort() is stable
+  return [...threads.values()].flatMap((thread) =>
+    thread.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""))
+  );
+}
+
+/**
+ * Keeps only the latest version of each file in a thread
+ * Files are the same when their names match, ignoring case
+ * @param attachments - Attachments ordered by sortByThread
+ * @returns Attachments kept, in the same order, and how many older versions were dropped
+ */
+export function latestPerThread(attachments: AttachmentInfo[]): {
+  kept: AttachmentInfo[];
+  dropped: number;
+} {
+  const latest = new Map<string, AttachmentInfo>();
+  for (const att of attachments) {
+    latest.set(`${threadKey(att)}\0${att.filename.toLowerCase()}`, att);
+  }
+
+  const keep = new Set(latest.values());
+  const kept = attachments.filter((att) => keep.has(att));
+  return { kept, dropped: attachments.length - kept.length };
+}
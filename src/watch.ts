@@ -0,0 +1,173 @@
+// Watch module - follows new mail through the Gmail history API
+import type { OAuth2Client } from "google-auth-library";
+import { exists, rename } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  DEFAULT_USER_ID,
+  getHistoryId,
+  listHistory,
+  searchMessages,
+  type SearchOptions,
+} from "./gmail";
+import { toWriteError } from "./zip";
+
+// Cursor file, kept in the watched output folder
+export const WATCH_CURSOR_FILE = ".gmail-attachments-watch.json";
+// Download state of a watch, next to its cursor and apart from that of exports
+export const WATCH_STATE_FILE = ".gmail-attachments-watch-state.json";
+
+export const DEFAULT_INTERVAL_MS = 60 * 1000;
+const MIN_INTERVAL_MS = 10 * 1000;
+
+// How far before the last poll new messages are searched for; a message's
+// date can be older than its arrival (delayed delivery, imports)
+const SEARCH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+const INTERVAL_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+export interface WatchCursor {
+  version: 1;
+  // Query the cursor belongs to; another query starts over with a full search
+  query: string;
+  historyId: string;
+  // When the mailbox was last checked
+  updatedAt: string;
+}
+
+export interface PollResult {
+  // New messages matching the query
+  messageIds: string[];
+  // History ID to continue from
+  historyId: string;
+  // Whether every matching message was searched for, not only new ones
+  full: boolean;
+}
+
+/**
+ * Parses a polling interval
+ * @param value - Seconds, or a number with s, m or h, e.g. "90", "30s", "5m"
+ * @returns Interval in milliseconds
+ * @throws Error for invalid intervals and intervals below 10 seconds
+ */
+export function parseInterval(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/);
+  if (!match) {
+    throw new Error(`Invalid interval "${value}". Use seconds or a unit, e.g. 30s, 5m, 1h`);
+  }
+  const ms = Math.round(Number(match[1]) * INTERVAL_UNITS[match[2] || "s"]);
+  if (ms < MIN_INTERVAL_MS) {
+    throw new Error(`Interval "${value}" is too short; the minimum is ${MIN_INTERVAL_MS / 1000}s`);
+  }
+  return ms;
+}
+
+/**
+ * Loads the cursor of an earlier watch
+ * @param dir - Watched output folder
+ * @returns The cursor, or undefined on the first watch
+ * @throws Error when the file exists but cannot be used
+ */
+export async function loadCursor(dir: string): Promise<WatchCursor | undefined> {
+  const path = join(dir, WATCH_CURSOR_FILE);
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    return undefined;
+  }
+
+  let cursor: WatchCursor;
+  try {
+    cursor = JSON.parse(await file.text()) as WatchCursor;
+  } catch {
+    throw new Error(`Failed to parse ${path}. Delete it to start over with a full search.`);
+  }
+
+  if (cursor.version !== 1 || typeof cursor.historyId !== "string") {
+    throw new Error(`Unsupported watch cursor format in ${path}. Delete it to start over.`);
+  }
+
+  return cursor;
+}
+
+/**
+ * Saves the cursor in a single rename, so a crash never leaves half a file
+ * @param cursor - Cursor to save
+ * @param dir - Watched output folder
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function saveCursor(cursor: WatchCursor, dir: string): Promise<void> {
+  const path = join(dir, WATCH_CURSOR_FILE);
+  const partialPath = `${path}.partial`;
+  try {
+    await Bun.write(partialPath, JSON.stringify(cursor, null, 2));
+    await rename(partialPath, path);
+  } catch (error) {
+    throw toWriteError(error, path, "watch cursor");
+  }
+}
+
+/**
+ * Finds the messages to download since the cursor
+ * New messages come from the history API and are matched against the query
+ * with a search limited to recent mail. Without a usable cursor (first run,
+ * another query, or history Gmail no longer keeps) every match is searched for.
+ * @param auth - Authorized client
+ * @param query - Gmail search query
+ * @param cursor - Cursor of the last poll, undefined on the first
+ * @param options - Limit and order of full searches
+ * @param userId - Mailbox, the signed-in user by default
+ * @returns Messages to download and the history ID to continue from
+ */
+export async function pollMailbox(
+  auth: OAuth2Client,
+  query: string,
+  cursor: WatchCursor | undefined,
+  options: SearchOptions = {},
+  userId: string = DEFAULT_USER_ID
+): Promise<PollResult> {
+  const changes =
+    cursor && cursor.query === query
+      ? await listHistory(auth, cursor.historyId, userId)
+      : null;
+
+  if (!changes) {
+    // Read the history ID first, so mail arriving during the search is not missed
+    const historyId = await getHistoryId(auth, userId);
+    const messageIds = await searchMessages(auth, query, options, userId);
+    return { messageIds, historyId, full: true };
+  }
+
+  if (changes.messageIds.length === 0) {
+    return { messageIds: [], historyId: changes.historyId, full: false };
+  }
+
+  const since = Math.floor((new Date(cursor!.updatedAt).getTime() - SEARCH_MARGIN_MS) / 1000);
+  const matching = new Set(
+    await searchMessages(auth, `${query} after:${since}`, {}, userId)
+  );
+  return {
+    messageIds: changes.messageIds.filter((id) => matching.has(id)),
+    historyId: changes.historyId,
+    full: false,
+  };
+}
+
+/**
+ * Finds a path for a new file that does not replace an existing one
+ * @param dir - Output folder
+ * @param filename - Wanted path relative to dir
+ * @returns filename, or filename with _1, _2... before the extension
+ */
+export async function freePath(dir: string, filename: string): Promise<string> {
+  const lastSlashIndex = filename.lastIndexOf("/");
+  const lastDotIndex = filename.lastIndexOf(".");
+  const hasExtension = lastDotIndex > lastSlashIndex + 1;
+  const name = hasExtension ? filename.slice(0, lastDotIndex) : filename;
+  const ext = hasExtension ? filename.slice(lastDotIndex) : "";
+
+  let candidate = filename;
+  for (let count = 1; await exists(join(dir, candidate)); count++) {
+    candidate = `${name}_${count}${ext}`;
+  }
+  return candidate;
+}
@@ -1,30 +1,111 @@
 // ZIP file creation module
-import JSZip from "jszip";
-import { exists } from "node:fs/promises";
+import { createReadStream } from "node:fs";
+import { exists, open, rename, rm, type FileHandle } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { crc32, createDeflateRaw } from "node:zlib";
 
 export interface FileEntry {
   filename: string;
-  data: Buffer;
+  // Path of the file holding the content, e.g. a spooled download
+  sourcePath: string;
+  modifiedAt?: Date;
 }
 
+export interface LinkEntry {
+  filename: string;
+  // Path of the linked file, relative to the folder of filename
+  target: string;
+  modifiedAt?: Date;
+}
+
+export interface ZipWriter {
+  /**
+   * Streams a file into the archive
+   * @param filename - Entry path inside the archive ("/" separated)
+   * @param sourcePath - File to read the content from
+   * @param modifiedAt - Timestamp stored for the entry (default: now)
+   * @returns False when the entry would take the archive over its size limit;
+   *   it is then left out. The first entry is always added
+   */
+  addFile(filename: string, sourcePath: string, modifiedAt?: Date): Promise<boolean>;
+  /**
+   * Adds a Unix symbolic link entry, restored as a link by Unix unzip tools
+   * @param filename - Entry path inside the archive ("/" separated)
+   * @param target - Link target, relative to the entry's folder
+   * @param modifiedAt - Timestamp stored for the entry (default: now)
+   * @returns False when the entry would take the archive over its size limit
+   */
+  addSymlink(filename: string, target: string, modifiedAt?: Date): Promise<boolean>;
+  /**
+   * Writes the central directory and moves the archive into place
+   * @returns Size of the archive in bytes
+   */
+  close(): Promise<number>;
+  /** Deletes the partially written archive */
+  abort(): Promise<void>;
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+  externalAttributes: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+// Bit 3: sizes follow in a data descriptor, bit 11: UTF-8 filenames
+const GENERAL_PURPOSE_FLAGS = 0x0008 | 0x0800;
+const METHOD_DEFLATE = 8;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// "Version made by" host value that makes unzip honour Unix file modes
+const HOST_UNIX = 3;
+// Unix mode (symbolic link, rwxrwxrwx) in the high half of the external attributes
+const SYMLINK_ATTRIBUTES = (0o120777 << 16) >>> 0;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// Stops writing an entry that would take the archive over its size limit
+class EntryTooLarge extends Error {}
+
 /**
  * Handles duplicate filenames by appending a counter
  * Example: "file.txt" becomes "file_1.txt", "file_2.txt", etc.
+ * Filenames may include folders ("a/file.txt"); only the last segment is renamed
  * @param files - Array of file entries (may contain duplicate filenames)
+ * @param taken - Names that must not be used, e.g. files already in the output
  * @returns Array of file entries with unique filenames
  */
-export function deduplicateFilenames(files: FileEntry[]): FileEntry[] {
+export function deduplicateFilenames<T extends { filename: string }>(
+  files: T[],
+  taken: ReadonlySet<string> = new Set()
+): T[] {
   const seenNames = new Map<string, number>();
-  const result: FileEntry[] = [];
+  // Every name handed out, so a renamed file never takes an original's name
+  const usedNames = new Set<string>(taken);
+  const result: T[] = [];
 
   for (const file of files) {
     let finalName = file.filename;
-    const count = seenNames.get(file.filename) ?? 0;
+    let count = seenNames.get(file.filename) ?? 0;
 
-    if (count > 0) {
-      // Split filename into name and extension
-      const lastDotIndex = file.filename.lastIndexOf(".");
-      if (lastDotIndex > 0) {
+    // Split filename into name and extension, ignoring dots in folder names
+    const lastSlashIndex = file.filename.lastIndexOf("/");
+    const lastDotIndex = file.filename.lastIndexOf(".");
+    while (usedNames.has(finalName)) {
+      count = Math.max(count, 1);
+      if (lastDotIndex > lastSlashIndex + 1) {
         // Has extension
         const name = file.filename.slice(0, lastDotIndex);
         const ext = file.filename.slice(lastDotIndex);
@@ -33,81 +114,422 @@ export function deduplicateFilenames(files: FileEntry[]): FileEntry[] {
         // No extension
         finalName = `${file.filename}_${count}`;
       }
+      count++;
     }
 
-    seenNames.set(file.filename, count + 1);
-    result.push({ filename: finalName, data: file.data });
+    seenNames.set(file.filename, Math.max(count, 1));
+    usedNames.add(finalName);
+    result.push({ ...file, filename: finalName });
   }
 
   return result;
 }
 
 /**
- * Creates a ZIP archive from an array of file objects
- * Automatically handles duplicate filenames
- * @param files - Array of {filename, data} objects to include in the ZIP
- * @returns ZIP archive as a Buffer
- */
-export async function createZip(files: FileEntry[]): Promise<Buffer> {
-  const zip = new JSZip();
-  const uniqueFiles = deduplicateFilenames(files);
-
-  for (const file of uniqueFiles) {
-    zip.file(file.filename, file.data);
-  }
-
-  const buffer = await zip.generateAsync({
-    type: "nodebuffer",
-    compression: "DEFLATE",
-    compressionOptions: { level: 6 },
-  });
-
-  return buffer;
-}
-
-/**
- * Writes a ZIP buffer to disk
- * @param zipBuffer - The ZIP file as a Buffer
+ * Creates a ZIP archive that is written to disk entry by entry
+ * Only one entry is held in memory at a time, in small chunks. The archive is
+ * written to "<outputPath>.partial" and renamed on close, and switches to
+ * ZIP64 records when it grows beyond 4 GiB or 65535 entries.
  * @param outputPath - The path to write the ZIP file to
- * @returns The final file path
+ * @param maxSize - Size limit of the finished archive in bytes; entries that
+ *   would exceed it are refused, except the first
+ * @returns Writer to add entries to
  * @throws Error with descriptive message for permission or disk errors
  */
-export async function writeZipToFile(
-  zipBuffer: Buffer,
-  outputPath: string
-): Promise<string> {
+export async function createZipWriter(
+  outputPath: string,
+  maxSize?: number
+): Promise<ZipWriter> {
   // Check if file exists and warn
   if (await exists(outputPath)) {
     console.warn(`Warning: Overwriting existing file: ${outputPath}`);
   }
 
+  const partialPath = `${outputPath}.partial`;
+  let handle: FileHandle;
   try {
-    await Bun.write(outputPath, zipBuffer);
-    return outputPath;
+    handle = await open(partialPath, "w");
   } catch (error) {
-    const err = error as NodeJS.ErrnoException;
+    throw toWriteError(error, outputPath, "ZIP file");
+  }
 
-    if (err.code === "EACCES" || err.code === "EPERM") {
-      throw new Error(
-        `Permission denied: Cannot write to "${outputPath}". Check file/directory permissions.`
-      );
+  const entries: CentralEntry[] = [];
+  let position = 0;
+  // Size of the central directory written on close
+  let directorySize = 0;
+
+  const write = async (data: Buffer): Promise<void> => {
+    try {
+      await handle.write(data, 0, data.length, position);
+    } catch (error) {
+      throw toWriteError(error, outputPath, "ZIP file");
     }
+    position += data.length;
+  };
 
-    if (err.code === "ENOSPC") {
-      throw new Error(
-        `Disk full: Not enough space to write "${outputPath}".`
+  const addEntry = async (
+    filename: string,
+    source: Readable,
+    modifiedAt: Date,
+    externalAttributes: number
+  ): Promise<boolean> => {
+    const name = Buffer.from(filename, "utf8");
+    const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+    const offset = position;
+    const headerSize = 46 + name.length + (offset > MAX_32 ? 12 : 0);
+    // Whether the archive, closed after this entry, stays within maxSize
+    const fits = (): boolean => {
+      if (maxSize === undefined || entries.length === 0) return true;
+      const centralOffset = position + 16;
+      const centralSize = directorySize + headerSize;
+      const zip64 =
+        entries.length + 1 > MAX_16 || centralOffset > MAX_32 || centralSize > MAX_32;
+      return centralOffset + centralSize + (zip64 ? 76 : 0) + 22 <= maxSize;
+    };
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    try {
+      await write(localHeader(name, dosTime, dosDate));
+      await pipeline(
+        source,
+        async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            crc = crc32(chunk, crc);
+            size += chunk.length;
+            yield chunk;
+          }
+        },
+        createDeflateRaw({ level: 6 }),
+        async function (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            compressedSize += chunk.length;
+            await write(chunk);
+            // Stop compressing as soon as the entry cannot fit
+            if (!fits()) throw new EntryTooLarge();
+          }
+        }
       );
+    } catch (error) {
+      if (!(error instanceof EntryTooLarge)) throw error;
+    }
+    if (!fits()) {
+      // Leave the entry out; the next one is written over it
+      position = offset;
+      return false;
     }
 
-    if (err.code === "EROFS") {
-      throw new Error(
-        `Read-only filesystem: Cannot write to "${outputPath}".`
-      );
+    // Entries are attachments; sizes beyond 4 GiB per entry are not supported
+    if (size > MAX_32 || compressedSize > MAX_32) {
+      throw new Error(`"${filename}" is too large for a ZIP entry (over 4 GiB)`);
     }
 
-    // Re-throw with context for other errors
-    throw new Error(
-      `Failed to write ZIP file to "${outputPath}": ${err.message}`
+    await write(dataDescriptor(crc, compressedSize, size));
+    entries.push({
+      name,
+      crc,
+      compressedSize,
+      size,
+      offset,
+      dosTime,
+      dosDate,
+      externalAttributes,
+    });
+    directorySize += headerSize;
+    return true;
+  };
+
+  const addFile = (
+    filename: string,
+    sourcePath: string,
+    modifiedAt: Date = new Date()
+  ): Promise<boolean> => addEntry(filename, createReadStream(sourcePath), modifiedAt, 0);
+
+  // A symbolic link entry holds the link target as its content
+  const addSymlink = (
+    filename: string,
+    target: string,
+    modifiedAt: Date = new Date()
+  ): Promise<boolean> =>
+    addEntry(
+      filename,
+      Readable.from([Buffer.from(target, "utf8")]),
+      modifiedAt,
+      SYMLINK_ATTRIBUTES
     );
+
+  const close = async (): Promise<number> => {
+    const centralOffset = position;
+    for (const entry of entries) {
+      await write(centralHeader(entry));
+    }
+    const centralSize = position - centralOffset;
+
+    const needsZip64 =
+      entries.length > MAX_16 || centralOffset > MAX_32 || centralSize > MAX_32;
+    if (needsZip64) {
+      const zip64EndOffset = position;
+      await write(zip64End(entries.length, centralSize, centralOffset));
+      await write(zip64Locator(zip64EndOffset));
+    }
+    await write(end(entries.length, centralSize, centralOffset));
+
+    try {
+      // Drop what is left of an entry that did not fit
+      await handle.truncate(position);
+      await handle.close();
+      await rename(partialPath, outputPath);
+    } catch (error) {
+      throw toWriteError(error, outputPath, "ZIP file");
+    }
+
+    return position;
+  };
+
+  const abort = async (): Promise<void> => {
+    await handle.close().catch(() => {});
+    await rm(partialPath, { force: true });
+  };
+
+  return { addFile, addSymlink, close, abort };
+}
+
+export interface ZipVolume {
+  path: string;
+  // Size in bytes, over the limit when the volume holds one file too large for it
+  size: number;
+  entries: number;
+}
+
+export interface VolumeWriter {
+  /** Streams a file into the current volume, or a new one when it is full */
+  addFile(filename: string, sourcePath: string, modifiedAt?: Date): Promise<void>;
+  /** Adds a symbolic link entry to the current volume, or a new one when it is full */
+  addSymlink(filename: string, target: string, modifiedAt?: Date): Promise<void>;
+  /**
+   * Closes the last volume and deletes the later volumes of an earlier,
+   * larger archive at the same path, so the set holds only this export
+   * @returns Every volume written, in order
+   */
+  close(): Promise<ZipVolume[]>;
+  /** Deletes the volumes written so far */
+  abort(): Promise<void>;
+}
+
+/**
+ * Returns the path of one volume of a split archive
+ * Example: "attachments.zip" becomes "attachments.part001.zip"
+ * @param outputPath - Path given for the whole archive
+ * @param part - Volume number, from 1
+ * @returns Path of the volume
+ */
+export function volumePath(outputPath: string, part: number): string {
+  const number = `part${String(part).padStart(3, "0")}`;
+
+  const lastSlashIndex = outputPath.lastIndexOf("/");
+  const lastDotIndex = outputPath.lastIndexOf(".");
+  if (lastDotIndex > lastSlashIndex + 1) {
+    return `${outputPath.slice(0, lastDotIndex)}.${number}${outputPath.slice(lastDotIndex)}`;
   }
+  return `${outputPath}.${number}`;
+}
+
+/**
+ * Creates a ZIP archive split into volumes of at most maxSize bytes
+ * Every volume is a complete archive. Entries are never split: one that does
+ * not fit starts the next volume, and one that is larger than maxSize on its
+ * own gets a volume of its own, over the limit.
+ * @param outputPath - Path given for the whole archive, numbered by volumePath
+ * @param maxSize - Size limit of each volume in bytes
+ * @returns Writer to add entries to
+ * @throws Error with descriptive message for permission or disk errors
+ */
+export async function createVolumeWriter(
+  outputPath: string,
+  maxSize: number
+): Promise<VolumeWriter> {
+  const volumes: ZipVolume[] = [];
+  let path = volumePath(outputPath, 1);
+  let writer = await createZipWriter(path, maxSize);
+  let entries = 0;
+
+  const closeVolume = async (): Promise<void> => {
+    volumes.push({ path, size: await writer.close(), entries });
+  };
+
+  // The first entry of a volume is always added, so the retry cannot fail
+  const add = async (addEntry: (writer: ZipWriter) => Promise<boolean>): Promise<void> => {
+    if (!(await addEntry(writer))) {
+      await closeVolume();
+      path = volumePath(outputPath, volumes.length + 1);
+      writer = await createZipWriter(path, maxSize);
+      entries = 0;
+      await addEntry(writer);
+    }
+    entries++;
+  };
+
+  const addFile = (filename: string, sourcePath: string, modifiedAt?: Date): Promise<void> =>
+    add((volume) => volume.addFile(filename, sourcePath, modifiedAt));
+
+  const addSymlink = (filename: string, target: string, modifiedAt?: Date): Promise<void> =>
+    add((volume) => volume.addSymlink(filename, target, modifiedAt));
+
+  const close = async (): Promise<ZipVolume[]> => {
+    await closeVolume();
+    for (let part = volumes.length + 1; ; part++) {
+      const stale = volumePath(outputPath, part);
+      if (!(await Bun.file(stale).exists())) break;
+      try {
+        await rm(stale);
+      } catch (error) {
+        throw toWriteError(error, stale, "ZIP archive");
+      }
+    }
+    return volumes;
+  };
+
+  const abort = async (): Promise<void> => {
+    await writer.abort();
+    for (const volume of volumes) {
+      await rm(volume.path, { force: true });
+    }
+  };
+
+  return { addFile, addSymlink, close, abort };
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  // DOS dates start in 1980
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime:
+      (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(name: Buffer, dosTime: number, dosDate: number): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_DEFAULT, 4);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+  header.writeUInt16LE(METHOD_DEFLATE, 8);
+  header.writeUInt16LE(dosTime, 10);
+  header.writeUInt16LE(dosDate, 12);
+  // CRC and sizes are written in the data descriptor
+  header.writeUInt16LE(name.length, 26);
+  return Buffer.concat([header, name]);
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  descriptor.writeUInt32LE(compressedSize, 8);
+  descriptor.writeUInt32LE(size, 12);
+  return descriptor;
+}
+
+function centralHeader(entry: CentralEntry): Buffer {
+  // Offsets past 4 GiB move to a ZIP64 extra field
+  const zip64 = entry.offset > MAX_32;
+  const extra = Buffer.alloc(zip64 ? 12 : 0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+  }
+
+  const version = zip64 ? VERSION_ZIP64 : VERSION_DEFAULT;
+  // Entries with Unix attributes must say they were made on a Unix host
+  const host = entry.externalAttributes ? HOST_UNIX : 0;
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE((host << 8) | version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+  header.writeUInt16LE(METHOD_DEFLATE, 10);
+  header.writeUInt16LE(entry.dosTime, 12);
+  header.writeUInt16LE(entry.dosDate, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt32LE(entry.externalAttributes, 38);
+  header.writeUInt32LE(zip64 ? MAX_32 : entry.offset, 42);
+  return Buffer.concat([header, entry.name, extra]);
+}
+
+function zip64End(count: number, centralSize: number, centralOffset: number): Buffer {
+  const record = Buffer.alloc(56);
+  record.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+  // Size of the remaining record
+  record.writeBigUInt64LE(44n, 4);
+  record.writeUInt16LE(VERSION_ZIP64, 12);
+  record.writeUInt16LE(VERSION_ZIP64, 14);
+  record.writeBigUInt64LE(BigInt(count), 24);
+  record.writeBigUInt64LE(BigInt(count), 32);
+  record.writeBigUInt64LE(BigInt(centralSize), 40);
+  record.writeBigUInt64LE(BigInt(centralOffset), 48);
+  return record;
+}
+
+function zip64Locator(zip64EndOffset: number): Buffer {
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+  locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+  locator.writeUInt32LE(1, 16);
+  return locator;
+}
+
+function end(count: number, centralSize: number, centralOffset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_SIGNATURE, 0);
+  record.writeUInt16LE(Math.min(count, MAX_16), 8);
+  record.writeUInt16LE(Math.min(count, MAX_16), 10);
+  record.writeUInt32LE(Math.min(centralSize, MAX_32), 12);
+  record.writeUInt32LE(Math.min(centralOffset, MAX_32), 16);
+  return record;
+}
+
+/**
+ * Maps a file system error to an Error with a descriptive message
+ * @param error - The error thrown by the write operation
+ * @param outputPath - The path that was being written
+ * @param description - What was being written, used for unrecognised errors
+ * @returns Error suitable for showing to the user
+ */
+export function toWriteError(
+  error: unknown,
+  outputPath: string,
+  description: string
+): Error {
+  const err = error as NodeJS.ErrnoException;
+
+  if (err.code === "EACCES" || err.code === "EPERM") {
+    return new Error(
+      `Permission denied: Cannot write to "${outputPath}". Check file/directory permissions.`
+    );
+  }
+
+  if (err.code === "ENOSPC") {
+    return new Error(
+      `Disk full: Not enough space to write "${outputPath}".`
+    );
+  }
+
+  if (err.code === "EROFS") {
+    return new Error(
+      `Read-only filesystem: Cannot write to "${outputPath}".`
+    );
+  }
+
+  // Add context for other errors
+  return new Error(
+    `Failed to write ${description} to "${outputPath}": ${err.message}`
+  );
 }